@@ -7,6 +7,7 @@ const __dirname = path.dirname(__filename);
 
 const entryPoints = [
   path.join(__dirname, 'src/migration.ts'),
+  path.join(__dirname, 'src/index.ts'),
   // Include any other TypeScript files that are imported
 ];
 const outDir = 'dist';
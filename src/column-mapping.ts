@@ -0,0 +1,326 @@
+/**
+ * Column Mapping
+ *
+ * Decides how the rows of a preserved table are copied into its shadow table when the source
+ * version of the table (restored as shadow) has gained, lost or renamed columns compared to
+ * the destination (public). Columns are matched by name; new NOT NULL columns without a default
+ * get a zero value of their type. A per-table mapping covers the rest: renames, casts, constants
+ * and SQL expressions over the public row. A type change always needs an explicit cast, since
+ * a narrowing cast truncates and a failing one would abort writes to public in the sync trigger.
+ */
+
+import { Pool, PoolClient } from 'pg';
+
+/**
+ * How one shadow column gets its value; `from`, `value` and `expression` are exclusive
+ */
+export interface ColumnMapping {
+  /** Public column the value is copied from (default: the column of the same name) */
+  from?: string;
+  /** Type the value is cast to */
+  cast?: string;
+  /** Constant value */
+  value?: string | number | boolean | null;
+  /** SQL expression over the columns of the public row */
+  expression?: string;
+}
+
+/**
+ * Column mappings of one table, by shadow column name
+ */
+export type TableColumnMappings = Record<string, ColumnMapping>;
+
+/**
+ * Column of a table as read from `pg_attribute`
+ */
+export interface ColumnDefinition {
+  name: string;
+  /** Type as written in SQL, e.g. `character varying(255)` */
+  type: string;
+  /** `pg_type.typcategory`, e.g. `N` for numeric or `S` for string types */
+  category: string;
+  notNull: boolean;
+  hasDefault: boolean;
+  generated: boolean;
+  /** `pg_attribute.attidentity`: `a` (ALWAYS), `d` (BY DEFAULT) or empty */
+  identity: string;
+}
+
+export type ColumnValueSource = 'name' | 'rename' | 'cast' | 'constant' | 'expression' | 'default';
+
+/**
+ * Value of one shadow column, as a SQL expression over the public row
+ */
+export interface ResolvedColumn {
+  column: string;
+  expression: string;
+  source: ColumnValueSource;
+  /** Public column the value is copied from, when it is one (possibly cast) */
+  from?: string;
+  /** Type the copied public column is cast to */
+  cast?: string;
+}
+
+export interface ColumnMappingPlan {
+  /** Shadow columns written by inserts, in shadow column order */
+  columns: ResolvedColumn[];
+  /** Written columns an UPDATE sets: not `GENERATED ALWAYS AS IDENTITY` and not defaulted */
+  updateColumns: ResolvedColumn[];
+  /** Whether inserts need `OVERRIDING SYSTEM VALUE` to keep `GENERATED ALWAYS` identity values */
+  overridingSystemValue: boolean;
+  /** Public columns whose values are not copied to the shadow table */
+  unmappedPublicColumns: string[];
+  /** Shadow columns left to their default or NULL */
+  skippedShadowColumns: string[];
+}
+
+/**
+ * Zero value for a new NOT NULL column without a default, by type category
+ */
+const DEFAULT_VALUES: Record<string, string> = {
+  N: '0',
+  S: "''",
+  B: 'false',
+  D: 'now()',
+  T: "'0'",
+  A: "'{}'",
+};
+
+/**
+ * Read the columns of a table, in column order
+ * @returns No columns when the table does not exist
+ */
+export async function readColumnDefinitions(
+  db: Pool | PoolClient,
+  schemaName: string,
+  tableName: string
+): Promise<ColumnDefinition[]> {
+  const result = await db.query(
+    `
+    SELECT
+      a.attname::text AS name,
+      format_type(a.atttypid, a.atttypmod) AS type,
+      t.typcategory AS category,
+      t.typname::text AS type_name,
+      a.attnotnull AS not_null,
+      a.atthasdef AS has_default,
+      a.attgenerated <> '' AS generated,
+      a.attidentity::text AS identity
+    FROM pg_attribute a
+    JOIN pg_type t ON t.oid = a.atttypid
+    WHERE a.attrelid = to_regclass($1) AND a.attnum > 0 AND NOT a.attisdropped
+    ORDER BY a.attnum
+  `,
+    [`"${schemaName}"."${tableName}"`]
+  );
+  return result.rows.map(row => ({
+    name: row.name,
+    type: row.type,
+    // JSON documents default to an empty object like other containers
+    category: row.type_name === 'json' || row.type_name === 'jsonb' ? 'A' : row.category,
+    notNull: row.not_null,
+    hasDefault: row.has_default,
+    generated: row.generated,
+    identity: row.identity,
+  }));
+}
+
+/**
+ * Work out the value of each shadow column of a preserved table from the public row
+ * @throws When a mapping is invalid, or a new NOT NULL column needs a mapping
+ */
+export function resolveColumnMapping(
+  tableName: string,
+  publicColumns: ColumnDefinition[],
+  shadowColumns: ColumnDefinition[],
+  mappings: TableColumnMappings = {}
+): ColumnMappingPlan {
+  const publicByName = new Map(publicColumns.map(column => [column.name, column]));
+  const shadowNames = new Set(shadowColumns.map(column => column.name));
+
+  for (const [column, mapping] of Object.entries(mappings)) {
+    if (!shadowNames.has(column)) {
+      throw new Error(`Column mapping for ${tableName}.${column}: no such shadow column`);
+    }
+    const kinds = ['from', 'value', 'expression'].filter(kind => kind in mapping);
+    if (kinds.length > 1) {
+      throw new Error(
+        `Column mapping for ${tableName}.${column}: ${kinds.join(' and ')} cannot be combined`
+      );
+    }
+    const from = kinds.length === 0 ? column : mapping.from;
+    if (from !== undefined && !publicByName.has(from)) {
+      throw new Error(`Column mapping for ${tableName}.${column}: no public column named ${from}`);
+    }
+  }
+
+  const columns: ResolvedColumn[] = [];
+  const skippedShadowColumns: string[] = [];
+  for (const shadow of shadowColumns) {
+    const mapping = mappings[shadow.name];
+    if (shadow.generated) {
+      if (mapping) {
+        throw new Error(
+          `Column mapping for ${tableName}.${shadow.name}: generated columns compute their own values`
+        );
+      }
+      continue;
+    }
+
+    const resolved = mapping
+      ? resolveMappedColumn(tableName, shadow, mapping, publicByName)
+      : resolveUnmappedColumn(tableName, shadow, publicByName);
+    if (resolved) {
+      columns.push(resolved);
+    } else {
+      skippedShadowColumns.push(shadow.name);
+    }
+  }
+
+  const used = new Set(columns.map(column => column.from));
+  for (const column of columns.filter(resolved => resolved.source === 'expression')) {
+    for (const identifier of referencedIdentifiers(column.expression)) {
+      used.add(identifier);
+    }
+  }
+  const unmappedPublicColumns = publicColumns
+    .map(column => column.name)
+    .filter(name => !used.has(name));
+
+  const identityAlways = new Set(
+    shadowColumns.filter(column => column.identity === 'a').map(column => column.name)
+  );
+  return {
+    columns,
+    updateColumns: columns.filter(
+      column => !identityAlways.has(column.column) && column.source !== 'default'
+    ),
+    overridingSystemValue: columns.some(column => identityAlways.has(column.column)),
+    unmappedPublicColumns,
+    skippedShadowColumns,
+  };
+}
+
+/**
+ * Describe each resolved shadow column for the log, e.g. `full_name ← "name" (rename)`
+ */
+export function describeColumnMapping(plan: ColumnMappingPlan): string[] {
+  const lines = plan.columns.map(
+    column =>
+      `${column.column} ← ${column.expression}${column.source === 'name' ? '' : ` (${column.source})`}`
+  );
+  for (const column of plan.skippedShadowColumns) {
+    lines.push(`${column} ← default`);
+  }
+  for (const column of plan.unmappedPublicColumns) {
+    lines.push(`${column} (public only, not copied)`);
+  }
+  return lines;
+}
+
+/**
+ * Resolve a shadow column that has a mapping
+ */
+function resolveMappedColumn(
+  tableName: string,
+  shadow: ColumnDefinition,
+  mapping: ColumnMapping,
+  publicByName: Map<string, ColumnDefinition>
+): ResolvedColumn {
+  const withCast = (expression: string) =>
+    mapping.cast ? `(${expression})::${mapping.cast}` : expression;
+
+  if ('value' in mapping) {
+    return {
+      column: shadow.name,
+      expression: withCast(toLiteral(mapping.value ?? null)),
+      source: 'constant',
+    };
+  }
+  if (mapping.expression !== undefined) {
+    return { column: shadow.name, expression: withCast(mapping.expression), source: 'expression' };
+  }
+
+  const from = mapping.from ?? shadow.name;
+  const cast = mapping.cast;
+  const fromType = publicByName.get(from)?.type;
+  if (!cast && fromType !== shadow.type) {
+    throw new Error(
+      `Column mapping for ${tableName}.${shadow.name}: public column ${from} is ${fromType} and the shadow column is ${shadow.type} - add a cast`
+    );
+  }
+  return {
+    column: shadow.name,
+    expression: cast ? `${quoteIdent(from)}::${cast}` : quoteIdent(from),
+    source: from !== shadow.name ? 'rename' : cast ? 'cast' : 'name',
+    from,
+    cast,
+  };
+}
+
+/**
+ * Resolve a shadow column without a mapping: by name, or a zero value for a new NOT NULL column
+ * @returns undefined when the column is left to its default or NULL
+ */
+function resolveUnmappedColumn(
+  tableName: string,
+  shadow: ColumnDefinition,
+  publicByName: Map<string, ColumnDefinition>
+): ResolvedColumn | undefined {
+  const match = publicByName.get(shadow.name);
+  if (match) {
+    if (match.type !== shadow.type) {
+      throw new Error(
+        `Column ${tableName}.${shadow.name} changes type from ${match.type} to ${shadow.type} - add a column mapping with a cast for it`
+      );
+    }
+    return {
+      column: shadow.name,
+      expression: quoteIdent(shadow.name),
+      source: 'name',
+      from: shadow.name,
+    };
+  }
+
+  if (!shadow.notNull || shadow.hasDefault || shadow.identity !== '') {
+    return undefined;
+  }
+  const value = DEFAULT_VALUES[shadow.category];
+  if (!value) {
+    throw new Error(
+      `Column ${tableName}.${shadow.name} is new, NOT NULL and has no default - add a column mapping for it`
+    );
+  }
+  return { column: shadow.name, expression: `${value}::${shadow.type}`, source: 'default' };
+}
+
+/**
+ * Column names an SQL expression may refer to: quoted identifiers as written, unquoted ones
+ * folded to lower case, ignoring string literals
+ */
+function referencedIdentifiers(expression: string): Set<string> {
+  const identifiers = new Set<string>();
+  const tokens = /'(?:[^']|'')*'|"((?:[^"]|"")+)"|([A-Za-z_][A-Za-z0-9_$]*)/g;
+  for (const [, quoted, unquoted] of expression.matchAll(tokens)) {
+    if (quoted !== undefined) {
+      identifiers.add(quoted.replace(/""/g, '"'));
+    } else if (unquoted !== undefined) {
+      identifiers.add(unquoted.toLowerCase());
+    }
+  }
+  return identifiers;
+}
+
+function toLiteral(value: string | number | boolean | null): string {
+  if (value === null) {
+    return 'NULL';
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  return String(value);
+}
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
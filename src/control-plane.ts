@@ -0,0 +1,358 @@
+/**
+ * HTTP Control Plane
+ *
+ * Drives migrations over HTTP for ops tooling. Read-only commands (`status`, `list`,
+ * `verify`) answer directly; long-running commands (`prepare`, `swap`, `rollback`, `cleanup`)
+ * start a job that can be polled and whose logs can be streamed. Only one job runs per
+ * destination database at a time, and every request except `GET /health` needs the bearer
+ * token the server was started with.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import {
+  handler as defaultHandler,
+  HandlerContext,
+  MigrationEvent,
+  MigrationEventCommand,
+  MigrationHandlerResult,
+  resolveEventDatabase,
+} from './handler.js';
+import { createSecretResolver } from './secret-providers.js';
+import { describeError } from './logger.js';
+
+/**
+ * Commands answered within the request
+ */
+const DIRECT_COMMANDS: MigrationEventCommand[] = ['status', 'list', 'verify'];
+
+/**
+ * Commands run as background jobs, at most one per destination
+ */
+const JOB_COMMANDS: MigrationEventCommand[] = ['prepare', 'swap', 'rollback', 'cleanup'];
+
+/**
+ * Finished jobs kept for polling; the oldest are forgotten first
+ */
+const MAX_FINISHED_JOBS = 100;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export type JobStatus = 'running' | 'succeeded' | 'failed';
+
+export interface MigrationJob {
+  id: string;
+  command: MigrationEventCommand;
+  /** `host:port/database` of the destination the job holds */
+  destination: string;
+  status: JobStatus;
+  createdAt: Date;
+  finishedAt?: Date;
+  result?: MigrationHandlerResult;
+  logs: string[];
+}
+
+export interface ControlPlaneConfig {
+  /** Bearer token required on every request except `GET /health` */
+  token: string;
+  port?: number;
+  host?: string;
+  /** Command handler, replaceable in tests */
+  handler?: (event: MigrationEvent, context: HandlerContext) => Promise<MigrationHandlerResult>;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string,
+    readonly body: Record<string, unknown> = {}
+  ) {
+    super(message);
+  }
+}
+
+export class ControlPlaneServer {
+  private config: ControlPlaneConfig;
+  private handler: (
+    event: MigrationEvent,
+    context: HandlerContext
+  ) => Promise<MigrationHandlerResult>;
+  private server: Server;
+  private jobs = new Map<string, MigrationJob>();
+  /** Running job ID per destination */
+  private activeJobs = new Map<string, string>();
+  /** Open `follow` log streams per job */
+  private logFollowers = new Map<string, Set<ServerResponse>>();
+  /** Completion of each running job */
+  private jobRuns = new Map<string, Promise<void>>();
+  /** Tail of the job starts, which run one at a time */
+  private jobStarts: Promise<unknown> = Promise.resolve();
+
+  constructor(config: ControlPlaneConfig) {
+    if (!config.token) {
+      throw new Error('The control plane requires an API token');
+    }
+    this.config = config;
+    this.handler = config.handler ?? defaultHandler;
+    this.server = createServer((req, res) => {
+      this.route(req, res).catch(error => this.sendError(res, error));
+    });
+  }
+
+  /**
+   * Start listening
+   * @returns The bound address (useful with port 0)
+   */
+  async start(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.config.port ?? 3000, this.config.host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    return this.server.address() as AddressInfo;
+  }
+
+  /**
+   * Stop accepting requests and end open log streams; running jobs are not interrupted
+   */
+  async stop(): Promise<void> {
+    for (const followers of this.logFollowers.values()) {
+      for (const res of followers) {
+        res.end();
+      }
+    }
+    this.logFollowers.clear();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Wait for a job to finish
+   */
+  async waitForJob(jobId: string): Promise<MigrationJob | undefined> {
+    await this.jobRuns.get(jobId);
+    return this.jobs.get(jobId);
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://control-plane');
+    const segments = url.pathname.split('/').filter(segment => segment.length > 0);
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      this.sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    this.authenticate(req);
+
+    if (req.method === 'GET' && segments[0] === 'jobs') {
+      if (segments.length === 1) {
+        this.sendJson(res, 200, { jobs: [...this.jobs.values()].map(job => this.describe(job)) });
+        return;
+      }
+      const job = this.jobs.get(segments[1]);
+      if (!job) {
+        throw new HttpError(404, `Job not found: ${segments[1]}`);
+      }
+      if (segments.length === 2) {
+        this.sendJson(res, 200, { ...this.describe(job), result: job.result });
+        return;
+      }
+      if (segments.length === 3 && segments[2] === 'logs') {
+        this.streamLogs(job, url.searchParams.get('follow') === 'true', res);
+        return;
+      }
+    }
+
+    if (req.method === 'POST' && segments.length === 1) {
+      const command = segments[0] as MigrationEventCommand;
+      if (DIRECT_COMMANDS.includes(command)) {
+        const result = await this.handler({ ...(await this.readEvent(req)), command }, {});
+        this.sendJson(res, result.success ? 200 : 422, result);
+        return;
+      }
+      if (JOB_COMMANDS.includes(command)) {
+        const job = await this.startJob({ ...(await this.readEvent(req)), command });
+        this.sendJson(res, 202, this.describe(job));
+        return;
+      }
+    }
+
+    throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+  }
+
+  /**
+   * Check the bearer token in constant time
+   */
+  private authenticate(req: IncomingMessage): void {
+    const header = req.headers.authorization || '';
+    const presented = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+    const expected = Buffer.from(this.config.token);
+    if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+      throw new HttpError(401, 'Missing or invalid bearer token');
+    }
+  }
+
+  /**
+   * Start a background job unless another job holds the same destination. Starts are
+   * serialized: resolving a secret-referenced destination awaits, and two concurrent
+   * requests must not both pass the guard before either claims the destination.
+   */
+  private startJob(event: MigrationEvent): Promise<MigrationJob> {
+    const started = this.jobStarts.then(() => this.claimDestination(event));
+    this.jobStarts = started.catch(() => undefined);
+    return started;
+  }
+
+  /**
+   * Claim the event's destination and launch its job
+   */
+  private async claimDestination(event: MigrationEvent): Promise<MigrationJob> {
+    const destination = await this.describeDestination(event);
+    const activeJobId = this.activeJobs.get(destination);
+    if (activeJobId) {
+      throw new HttpError(409, `A ${this.jobs.get(activeJobId)?.command} job is already running`, {
+        jobId: activeJobId,
+      });
+    }
+
+    const job: MigrationJob = {
+      id: randomUUID(),
+      command: event.command,
+      destination,
+      status: 'running',
+      createdAt: new Date(),
+      logs: [],
+    };
+    this.jobs.set(job.id, job);
+    this.activeJobs.set(destination, job.id);
+
+    const onLog = (line: string) => {
+      job.logs.push(line);
+      for (const res of this.logFollowers.get(job.id) || []) {
+        res.write(`${line}\n`);
+      }
+    };
+
+    const run = this.handler(event, { onLog })
+      .catch(
+        (error): MigrationHandlerResult => ({
+          command: event.command,
+          success: false,
+          error: describeError(error),
+        })
+      )
+      .then(result => this.finishJob(job, result));
+    this.jobRuns.set(job.id, run);
+
+    return job;
+  }
+
+  private finishJob(job: MigrationJob, result: MigrationHandlerResult): void {
+    job.result = result;
+    job.status = result.success ? 'succeeded' : 'failed';
+    job.finishedAt = new Date();
+    this.activeJobs.delete(job.destination);
+    this.jobRuns.delete(job.id);
+
+    for (const res of this.logFollowers.get(job.id) || []) {
+      res.end();
+    }
+    this.logFollowers.delete(job.id);
+
+    // Forget the oldest finished jobs once the history is full
+    const finished = [...this.jobs.values()].filter(candidate => candidate.status !== 'running');
+    for (const stale of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(stale.id);
+    }
+  }
+
+  /**
+   * Identify the destination database of an event, resolving secret references
+   */
+  private async describeDestination(event: MigrationEvent): Promise<string> {
+    const secretResolver = createSecretResolver({
+      endpoint: event.secretsEndpoint || process.env.SECRETS_MANAGER_ENDPOINT || undefined,
+    });
+    try {
+      const config = await resolveEventDatabase('dest', event, secretResolver, true);
+      return `${config.host}:${config.port}/${config.database}`;
+    } catch (error) {
+      throw new HttpError(400, describeError(error));
+    } finally {
+      secretResolver.close();
+    }
+  }
+
+  /**
+   * Send the job's logs so far; with `follow`, keep streaming until the job finishes
+   */
+  private streamLogs(job: MigrationJob, follow: boolean, res: ServerResponse): void {
+    res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+    for (const line of job.logs) {
+      res.write(`${line}\n`);
+    }
+
+    if (!follow || job.status !== 'running') {
+      res.end();
+      return;
+    }
+
+    const followers = this.logFollowers.get(job.id) || new Set<ServerResponse>();
+    followers.add(res);
+    this.logFollowers.set(job.id, followers);
+    res.on('close', () => followers.delete(res));
+  }
+
+  private async readEvent(req: IncomingMessage): Promise<MigrationEvent> {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'Request body too large');
+      }
+    }
+
+    if (body.trim().length === 0) {
+      return {} as MigrationEvent;
+    }
+    try {
+      return JSON.parse(body);
+    } catch {
+      throw new HttpError(400, 'Request body must be a JSON migration event');
+    }
+  }
+
+  /**
+   * Job summary without its logs or result
+   */
+  private describe(job: MigrationJob): Omit<MigrationJob, 'logs' | 'result'> {
+    return {
+      id: job.id,
+      command: job.command,
+      destination: job.destination,
+      status: job.status,
+      createdAt: job.createdAt,
+      finishedAt: job.finishedAt,
+    };
+  }
+
+  private sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(res: ServerResponse, error: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    if (error instanceof HttpError) {
+      this.sendJson(res, error.statusCode, { error: error.message, ...error.body });
+      return;
+    }
+    this.sendJson(res, 500, { error: describeError(error) });
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Dump Progress
+ *
+ * Follows the `--verbose` output of pg_dump and pg_restore to report which table's data is
+ * being copied and when each table finishes. The verbose output carries no row or byte
+ * counts, so percent complete is estimated from the source `pg_relation_size` of each table.
+ */
+
+/**
+ * Ledger checkpoint holding the progress of the running dump or restore
+ */
+export const DUMP_PROGRESS_CHECKPOINT = 'dump_progress';
+
+export type DumpProgressStep = 'dump' | 'restore';
+
+export type TableProgressStatus = 'pending' | 'running' | 'done';
+
+export interface TableProgress {
+  tableName: string;
+  /** Source relation size, the table's weight in the percent estimate (0 when unknown) */
+  bytes: number;
+  status: TableProgressStatus;
+  durationMs?: number;
+}
+
+/**
+ * Summary of a running or finished pg_dump/pg_restore, as recorded in the ledger for `status`
+ */
+export interface DumpProgress {
+  step: DumpProgressStep;
+  /** Database pg_dump reads from or pg_restore writes to */
+  database: string;
+  tablesDone: number;
+  tablesTotal: number;
+  /** Estimated percent of table data copied, weighted by source table size */
+  percent: number;
+  /** Tables whose data is being copied right now */
+  runningTables: string[];
+  /** ISO 8601 time of the last change */
+  updatedAt: string;
+}
+
+/**
+ * Progress of one pg_dump/pg_restore run with per-table detail, as kept in the migration stats
+ */
+export interface DumpProgressReport extends DumpProgress {
+  tables: TableProgress[];
+}
+
+/**
+ * A table starting or finishing, caused by one line of verbose output
+ */
+export interface TableProgressUpdate {
+  tableName: string;
+  status: 'running' | 'done';
+  durationMs?: number;
+}
+
+/**
+ * `dumping contents of table "public.User"`, `processing data for table "shadow.User"` or
+ * `launching item 3012 TABLE DATA User`
+ */
+const TABLE_STARTED_PATTERN =
+  /^pg_(?:dump|restore): (?:(?:dumping contents of|processing data for) table|launching item \d+ TABLE DATA) (.+)$/;
+
+/**
+ * `finished item 3012 TABLE DATA User`, printed by the leader of a parallel run
+ */
+const TABLE_FINISHED_PATTERN = /^pg_(?:dump|restore): finished item \d+ TABLE DATA (.+)$/;
+
+/**
+ * Any other archive item; in a sequential run it means the previous table's data is done
+ */
+const OTHER_ITEM_PATTERN = /^pg_(?:dump|restore): (?:creating|executing) /;
+
+const ERROR_PATTERN = /^pg_(?:dump|restore): (?:error|detail|hint)/;
+
+/**
+ * Strip the schema and quotes from a table name printed by pg_dump or pg_restore
+ */
+function bareTableName(name: string): string {
+  const unquoted = name.replace(/"/g, '');
+  return unquoted.slice(unquoted.indexOf('.') + 1);
+}
+
+/**
+ * Tracks the table data items of one pg_dump or pg_restore run from its verbose stderr lines
+ * Parallel runs report each finished item; in a sequential run a table is done when the next
+ * item starts or the process exits.
+ */
+export class DumpProgressTracker {
+  readonly step: DumpProgressStep;
+  readonly database: string;
+  private parallel: boolean;
+  private tables = new Map<string, TableProgress>();
+  private startTimes = new Map<string, number>();
+  private errors: string[] = [];
+  private updatedAt = new Date();
+
+  /**
+   * @param tableSizes Source relation size of every table expected in the archive
+   * @param parallel Whether pg_dump/pg_restore runs more than one job
+   */
+  constructor(
+    step: DumpProgressStep,
+    database: string,
+    tableSizes: Map<string, number>,
+    parallel: boolean
+  ) {
+    this.step = step;
+    this.database = database;
+    this.parallel = parallel;
+    for (const [tableName, bytes] of tableSizes) {
+      this.tables.set(tableName, { tableName, bytes, status: 'pending' });
+    }
+  }
+
+  /**
+   * Handle one stderr line
+   * @returns Tables the line started or finished
+   */
+  handleLine(line: string): TableProgressUpdate[] {
+    const started = TABLE_STARTED_PATTERN.exec(line);
+    if (started) {
+      const updates = this.parallel ? [] : this.finishRunning();
+      return [...updates, ...this.start(bareTableName(started[1]))];
+    }
+
+    const finished = TABLE_FINISHED_PATTERN.exec(line);
+    if (finished) {
+      return this.finishTable(bareTableName(finished[1]));
+    }
+
+    if (OTHER_ITEM_PATTERN.test(line) && !this.parallel) {
+      return this.finishRunning();
+    }
+
+    if (ERROR_PATTERN.test(line)) {
+      this.errors.push(line);
+    }
+    return [];
+  }
+
+  /**
+   * Mark every running table as done once the process has exited successfully
+   */
+  complete(): TableProgressUpdate[] {
+    return this.finishRunning();
+  }
+
+  /**
+   * Error, detail and hint lines seen so far, to report instead of the full verbose output
+   */
+  get errorLines(): string[] {
+    return [...this.errors];
+  }
+
+  getProgress(): DumpProgress {
+    const tables = [...this.tables.values()];
+    const done = tables.filter(table => table.status === 'done');
+    const totalBytes = tables.reduce((sum, table) => sum + table.bytes, 0);
+    const doneBytes = done.reduce((sum, table) => sum + table.bytes, 0);
+
+    // Without sizes (or when every table is empty) fall back to counting tables
+    let fraction = 0;
+    if (totalBytes > 0) {
+      fraction = doneBytes / totalBytes;
+    } else if (tables.length > 0) {
+      fraction = done.length / tables.length;
+    }
+
+    return {
+      step: this.step,
+      database: this.database,
+      tablesDone: done.length,
+      tablesTotal: tables.length,
+      percent: Math.round(fraction * 1000) / 10,
+      runningTables: tables
+        .filter(table => table.status === 'running')
+        .map(table => table.tableName),
+      updatedAt: this.updatedAt.toISOString(),
+    };
+  }
+
+  getReport(): DumpProgressReport {
+    return {
+      ...this.getProgress(),
+      tables: [...this.tables.values()].map(table => ({ ...table })),
+    };
+  }
+
+  private start(tableName: string): TableProgressUpdate[] {
+    const table = this.tables.get(tableName) ?? { tableName, bytes: 0, status: 'pending' };
+    if (table.status !== 'pending') {
+      return [];
+    }
+    table.status = 'running';
+    this.tables.set(tableName, table);
+    this.startTimes.set(tableName, Date.now());
+    this.updatedAt = new Date();
+    return [{ tableName, status: 'running' }];
+  }
+
+  private finishTable(tableName: string): TableProgressUpdate[] {
+    // A parallel leader can report an item before its worker's start line is read
+    const table = this.tables.get(tableName) ?? { tableName, bytes: 0, status: 'pending' };
+    if (table.status === 'done') {
+      return [];
+    }
+    table.status = 'done';
+    this.tables.set(tableName, table);
+    table.durationMs = Date.now() - (this.startTimes.get(tableName) ?? Date.now());
+    this.updatedAt = new Date();
+    return [{ tableName, status: 'done', durationMs: table.durationMs }];
+  }
+
+  private finishRunning(): TableProgressUpdate[] {
+    return [...this.tables.values()]
+      .filter(table => table.status === 'running')
+      .flatMap(table => this.finishTable(table.tableName));
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Dump Storage
+ *
+ * Offloads dump archives to S3-compatible object storage and fetches them back, so one dump
+ * can be restored into several destinations without keeping it on the migration host.
+ * Directory-format dumps are stored as a single tar archive, and every object gets a
+ * `<key>.sha256` sidecar object that downloads are verified against.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, mkdirSync, statSync } from 'fs';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { execa } from 'execa';
+
+/**
+ * Multipart upload part size; S3 allows 10,000 parts, so objects up to ~320 GB can be uploaded
+ */
+const UPLOAD_PART_SIZE = 32 * 1024 * 1024;
+const UPLOAD_QUEUE_SIZE = 4;
+
+/**
+ * Object metadata recording whether the object is a single dump file or a tar of a directory
+ */
+const LAYOUT_METADATA_KEY = 'dump-layout';
+
+export interface ObjectStorageConfig {
+  /** Endpoint of an S3-compatible store such as MinIO; path-style URLs are used when set */
+  endpoint?: string;
+  /** Region of the bucket (defaults to AWS_REGION, then us-east-1) */
+  region?: string;
+}
+
+export interface StoredDumpObject {
+  uri: string;
+  bucket: string;
+  key: string;
+  /** SHA-256 of the object as stored, hex encoded */
+  sha256: string;
+  sizeBytes: number;
+  /** Whether the object is a tar of a directory-format dump */
+  directory: boolean;
+}
+
+/**
+ * Check whether a dump location is an `s3://bucket/key` URI rather than a local path
+ */
+export function isS3Uri(location: string): boolean {
+  return location.startsWith('s3://');
+}
+
+/**
+ * Split an `s3://bucket/key` URI into its bucket and key
+ */
+export function parseS3Uri(uri: string): { bucket: string; key: string } {
+  const match = uri.match(/^s3:\/\/([^/]+)\/(.+)$/);
+  if (!match) {
+    throw new Error(`Invalid S3 URI: ${uri} (expected s3://bucket/key)`);
+  }
+  return { bucket: match[1], key: match[2] };
+}
+
+export class DumpStorage {
+  private client: S3Client;
+
+  constructor(config: ObjectStorageConfig = {}) {
+    this.client = new S3Client({
+      endpoint: config.endpoint,
+      region: config.region || process.env.AWS_REGION || 'us-east-1',
+      forcePathStyle: config.endpoint !== undefined,
+    });
+  }
+
+  /**
+   * Upload a dump file or directory with a multipart upload, hashing it on the way out
+   */
+  async uploadDump(localPath: string, uri: string): Promise<StoredDumpObject> {
+    const { bucket, key } = parseS3Uri(uri);
+    const directory = statSync(localPath).isDirectory();
+
+    const hash = createHash('sha256');
+    let sizeBytes = 0;
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        sizeBytes += chunk.length;
+        callback(null, chunk);
+      },
+    });
+
+    // Directory-format dumps are packed into one tar stream so they upload as a single object
+    const tarProcess = directory
+      ? execa('tar', ['-cf', '-', '-C', localPath, '.'], { buffer: false })
+      : undefined;
+    const source = tarProcess ? tarProcess.stdout : createReadStream(localPath);
+
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: bucket,
+        Key: key,
+        Body: source.pipe(hasher),
+        Metadata: { [LAYOUT_METADATA_KEY]: directory ? 'directory-tar' : 'file' },
+      },
+      partSize: UPLOAD_PART_SIZE,
+      queueSize: UPLOAD_QUEUE_SIZE,
+    });
+
+    try {
+      await Promise.all([upload.done(), tarProcess]);
+    } catch (error) {
+      tarProcess?.kill();
+      await upload.abort().catch(() => undefined);
+      throw error;
+    }
+
+    const sha256 = hash.digest('hex');
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: bucket,
+        Key: `${key}.sha256`,
+        Body: `${sha256}  ${key.split('/').pop()}\n`,
+        ContentType: 'text/plain',
+      })
+    );
+
+    return { uri, bucket, key, sha256, sizeBytes, directory };
+  }
+
+  /**
+   * Stream a dump object down to local disk and verify it against its checksum sidecar
+   * @param localBasePath Path without extension: a `.backup` file or a directory is created there
+   * @returns The downloaded object and the local path of the dump file or directory
+   */
+  async downloadDump(
+    uri: string,
+    localBasePath: string
+  ): Promise<{ localPath: string; object: StoredDumpObject; checksumVerified: boolean }> {
+    const { bucket, key } = parseS3Uri(uri);
+    const response = await this.client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Dump object ${uri} has no content`);
+    }
+
+    const directory = response.Metadata?.[LAYOUT_METADATA_KEY] === 'directory-tar';
+    const localPath = directory ? localBasePath : `${localBasePath}.backup`;
+
+    const hash = createHash('sha256');
+    let sizeBytes = 0;
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        sizeBytes += chunk.length;
+        callback(null, chunk);
+      },
+    });
+
+    const body = response.Body as Readable;
+    if (directory) {
+      mkdirSync(localPath, { recursive: true });
+      const tarProcess = execa('tar', ['-xf', '-', '-C', localPath]);
+      try {
+        await Promise.all([pipeline(body, hasher, tarProcess.stdin), tarProcess]);
+      } catch (error) {
+        tarProcess.kill();
+        throw error;
+      }
+    } else {
+      await pipeline(body, hasher, createWriteStream(localPath));
+    }
+
+    const sha256 = hash.digest('hex');
+    const expectedSha256 = await this.readChecksum(bucket, key);
+    if (expectedSha256 && expectedSha256 !== sha256) {
+      throw new Error(
+        `Checksum mismatch for ${uri}: expected ${expectedSha256}, downloaded ${sha256}`
+      );
+    }
+
+    return {
+      localPath,
+      object: { uri, bucket, key, sha256, sizeBytes, directory },
+      checksumVerified: expectedSha256 !== null,
+    };
+  }
+
+  /**
+   * Look up the size of a dump object without downloading it
+   * @returns null when the object does not exist
+   */
+  async getDumpSize(uri: string): Promise<number | null> {
+    const { bucket, key } = parseS3Uri(uri);
+    try {
+      const head = await this.client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+      return head.ContentLength ?? 0;
+    } catch (error) {
+      if ((error as Error).name === 'NotFound') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Close the S3 client's connections
+   */
+  close(): void {
+    this.client.destroy();
+  }
+
+  /**
+   * Read the SHA-256 recorded in an object's `.sha256` sidecar
+   * @returns null for objects uploaded by other tools without a sidecar
+   */
+  private async readChecksum(bucket: string, key: string): Promise<string | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: bucket, Key: `${key}.sha256` })
+      );
+      const content = (await response.Body?.transformToString()) || '';
+      return content.split(/\s+/)[0] || null;
+    } catch (error) {
+      if ((error as Error).name === 'NoSuchKey') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Migration Handler
+ *
+ * Runs migrations from a scheduled container task, a Lambda-style invoker or the HTTP control
+ * plane. `handler(event)` dispatches a typed JSON event to `DatabaseMigrator` or
+ * `DatabaseRollback` and resolves with a structured result; it never calls `process.exit`.
+ */
+
+import {
+  DatabaseMigrator,
+  parseDatabaseUrl,
+  DatabaseConfig,
+  MigrationOptions,
+  MigrationResult,
+  PreparationResult,
+} from './migration-core.js';
+import { BackupInfo, BackupValidationResult, DatabaseRollback } from './rollback.js';
+import { MigrationStatus, getMigrationStatus } from './migration-status.js';
+import { StoredDumpObject, parseS3Uri } from './dump-storage.js';
+import { createSecretResolver, SecretResolver } from './secret-providers.js';
+import { MigrationEventEmitter } from './migration-events.js';
+import { describeError } from './logger.js';
+
+export type MigrationEventCommand =
+  | 'start'
+  | 'prepare'
+  | 'swap'
+  | 'resume'
+  | 'status'
+  | 'list'
+  | 'rollback'
+  | 'cleanup'
+  | 'verify'
+  | 'export';
+
+export interface MigrationEvent {
+  command: MigrationEventCommand;
+  /** Source connection URL (start, prepare, resume) */
+  source?: string;
+  /** Destination connection URL (every command) */
+  dest?: string;
+  /** Secret reference for the source, used instead of `source` (see secret-providers) */
+  sourceSecret?: string;
+  /** Secret reference for the destination, used instead of `dest` */
+  destSecret?: string;
+  /** Secrets Manager compatible endpoint for secret references */
+  secretsEndpoint?: string;
+  preservedTables?: string[];
+  /** Migration timestamp (swap, resume) or backup timestamp (rollback, verify, export) */
+  timestamp?: number;
+  /** Roll back to the most recent backup (rollback) */
+  latest?: boolean;
+  /** Tables to keep from the current schema during rollback */
+  keepTables?: string[];
+  /** Drop backups created before this ISO date or millisecond timestamp (cleanup) */
+  before?: string | number;
+  /** Object to export a backup to, `s3://bucket/key` (export) */
+  to?: string;
+  dryRun?: boolean;
+  /**
+   * Dump, restore, object storage and swap options for start, prepare and resume; the swap
+   * options (including `terminateBlockers`, `cutoverStrategy`, `sessionReset` and
+   * `captureLateWrites`) also apply to swap, and `webhooks` to swap, rollback and cleanup
+   */
+  options?: MigrationOptions;
+}
+
+export interface CleanupResult {
+  /** Backup schemas that were dropped, or would be dropped in a dry run */
+  deletedSchemas: string[];
+}
+
+export interface RollbackResult {
+  /** Timestamp of the backup that was restored */
+  timestamp: string;
+  keptTables: string[];
+}
+
+export type MigrationHandlerData =
+  | MigrationResult
+  | PreparationResult
+  | MigrationStatus
+  | BackupInfo[]
+  | BackupValidationResult
+  | RollbackResult
+  | CleanupResult
+  | StoredDumpObject;
+
+export interface HandlerContext {
+  /** Receives every log line written while the command runs */
+  onLog?: (line: string) => void;
+}
+
+export interface MigrationHandlerResult {
+  command: string;
+  success: boolean;
+  /** Error message when the command failed; the event itself is never echoed */
+  error?: string;
+  data?: MigrationHandlerData;
+}
+
+/**
+ * Run one migration command and resolve with its result
+ * Failures, including invalid events, resolve with `success: false` instead of throwing.
+ */
+export async function handler(
+  event: MigrationEvent,
+  context: HandlerContext = {}
+): Promise<MigrationHandlerResult> {
+  const command = event?.command;
+  const secretResolver = createSecretResolver({
+    endpoint: event?.secretsEndpoint || process.env.SECRETS_MANAGER_ENDPOINT || undefined,
+  });
+
+  try {
+    const data = await dispatch(event, secretResolver, context);
+    // Migration commands and backup validation report their own failures in the result
+    if ('success' in data && !data.success) {
+      return { command, success: false, error: data.error, data };
+    }
+    if ('isValid' in data && !data.isValid) {
+      return { command, success: false, error: data.errors.join('; '), data };
+    }
+    return { command, success: true, data };
+  } catch (error) {
+    return { command, success: false, error: describeError(error) };
+  } finally {
+    secretResolver.close();
+  }
+}
+
+async function dispatch(
+  event: MigrationEvent,
+  secretResolver: SecretResolver,
+  context: HandlerContext
+): Promise<MigrationHandlerData> {
+  if (!event || typeof event !== 'object') {
+    throw new Error('Event must be an object with a command');
+  }
+
+  const dryRun = event.dryRun || false;
+  const preservedTables = event.preservedTables || [];
+  const options: MigrationOptions = event.options || {};
+
+  // Forward log lines of the migrator or rollback to the caller
+  const observe = <T extends MigrationEventEmitter>(emitter: T): T => {
+    emitter.on('log', logEvent => context.onLog?.(logEvent.line));
+    return emitter;
+  };
+
+  switch (event.command) {
+    case 'start':
+    case 'prepare': {
+      const sourceConfig = await resolveEventDatabase('source', event, secretResolver, true);
+      const destConfig = await resolveEventDatabase('dest', event, secretResolver, true);
+      const migrator = observe(
+        new DatabaseMigrator(sourceConfig, destConfig, preservedTables, dryRun, options)
+      );
+      return event.command === 'start' ? migrator.migrate() : migrator.prepareMigration();
+    }
+
+    case 'swap': {
+      const destConfig = await resolveEventDatabase('dest', event, secretResolver, true);
+      const migrator = observe(
+        new DatabaseMigrator({} as DatabaseConfig, destConfig, preservedTables, dryRun, {
+          webhooks: options.webhooks,
+          swapLockTimeoutMs: options.swapLockTimeoutMs,
+          swapRetries: options.swapRetries,
+          swapDeadlineMs: options.swapDeadlineMs,
+          terminateBlockers: options.terminateBlockers,
+          cutoverStrategy: options.cutoverStrategy,
+          sessionReset: options.sessionReset,
+          captureLateWrites: options.captureLateWrites,
+        })
+      );
+      return migrator.completeMigration(preservedTables, event.timestamp);
+    }
+
+    case 'resume': {
+      const sourceConfig = await resolveEventDatabase('source', event, secretResolver, false);
+      const destConfig = await resolveEventDatabase('dest', event, secretResolver, true);
+      const migrator = observe(new DatabaseMigrator(sourceConfig, destConfig, [], dryRun, options));
+      return migrator.resumeMigration(event.timestamp);
+    }
+
+    case 'status':
+      return getMigrationStatus(await resolveEventDatabase('dest', event, secretResolver, true));
+
+    case 'list':
+    case 'rollback':
+    case 'cleanup':
+    case 'verify':
+    case 'export': {
+      const rollback = observe(
+        new DatabaseRollback(await resolveEventDatabase('dest', event, secretResolver, true), {
+          webhooks: options.webhooks,
+        })
+      );
+      try {
+        return await dispatchBackupCommand(event, rollback, dryRun);
+      } finally {
+        await rollback.close();
+      }
+    }
+
+    default:
+      throw new Error(`Unknown command: ${event.command}`);
+  }
+}
+
+async function dispatchBackupCommand(
+  event: MigrationEvent,
+  rollback: DatabaseRollback,
+  dryRun: boolean
+): Promise<MigrationHandlerData> {
+  switch (event.command) {
+    case 'list':
+      return rollback.getAvailableBackups();
+
+    case 'rollback': {
+      if (!event.latest && event.timestamp === undefined) {
+        throw new Error('Rollback requires latest or timestamp');
+      }
+      const backups = await rollback.getAvailableBackups();
+      const target = event.latest
+        ? backups[0]
+        : backups.find(backup => backup.timestamp === String(event.timestamp));
+      if (!target) {
+        throw new Error(
+          backups.length === 0 ? 'No backup schemas found' : `Backup not found: ${event.timestamp}`
+        );
+      }
+
+      const keepTables = event.keepTables || [];
+      if (!dryRun) {
+        await rollback.rollback(target.timestamp, keepTables);
+      }
+      return { timestamp: target.timestamp, keptTables: keepTables };
+    }
+
+    case 'cleanup': {
+      if (event.before === undefined) {
+        throw new Error('Cleanup requires before');
+      }
+      const cutoff = parseCutoff(event.before);
+      const toDelete = (await rollback.getAvailableBackups()).filter(
+        backup => parseInt(backup.timestamp) < cutoff
+      );
+      if (!dryRun) {
+        for (const backup of toDelete) {
+          await rollback.cleanupBackup(backup.timestamp);
+        }
+      }
+      return { deletedSchemas: toDelete.map(backup => backup.schemaName) };
+    }
+
+    case 'verify':
+      if (event.timestamp === undefined) {
+        throw new Error('Verify requires timestamp');
+      }
+      return rollback.validateBackup(String(event.timestamp));
+
+    case 'export':
+      if (event.timestamp === undefined || !event.to) {
+        throw new Error('Export requires timestamp and to');
+      }
+      parseS3Uri(event.to);
+      return rollback.exportBackup(String(event.timestamp), event.to, event.options?.objectStorage);
+
+    default:
+      throw new Error(`Unknown backup command: ${event.command}`);
+  }
+}
+
+/**
+ * Resolve the source or destination of an event from its secret reference or URL
+ */
+export async function resolveEventDatabase(
+  role: 'source' | 'dest',
+  event: MigrationEvent,
+  secretResolver: SecretResolver,
+  required: boolean
+): Promise<DatabaseConfig> {
+  const secretReference = role === 'source' ? event.sourceSecret : event.destSecret;
+  const url = role === 'source' ? event.source : event.dest;
+
+  if (secretReference) {
+    return secretResolver.resolve(secretReference);
+  }
+  if (url) {
+    return parseDatabaseUrl(url);
+  }
+  if (required) {
+    throw new Error(`${event.command} requires ${role} or ${role}Secret`);
+  }
+  return {} as DatabaseConfig;
+}
+
+/**
+ * Parse a cleanup cutoff given as a millisecond timestamp or an ISO date
+ */
+function parseCutoff(before: string | number): number {
+  if (typeof before === 'number' || /^\d+$/.test(before)) {
+    return Number(before);
+  }
+  const cutoff = Date.parse(before);
+  if (isNaN(cutoff)) {
+    throw new Error(`Invalid date: ${before}`);
+  }
+  return cutoff;
+}
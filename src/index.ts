@@ -1 +1,102 @@
-// Future: will export migration handler function for container use
+/**
+ * Container Entry Point
+ *
+ * `node dist/index.js` runs the event in the `MIGRATION_EVENT` environment variable once and
+ * prints the result as JSON (for scheduled tasks); without it, the HTTP control plane is
+ * started on `PORT` (default 3000) with the `CONTROL_PLANE_TOKEN` bearer token.
+ */
+
+import { fileURLToPath } from 'url';
+import { handler, HandlerContext, MigrationEvent } from './handler.js';
+import { ControlPlaneServer } from './control-plane.js';
+
+export * from './handler.js';
+export { ControlPlaneServer } from './control-plane.js';
+export type { ControlPlaneConfig, MigrationJob, JobStatus } from './control-plane.js';
+export * from './migration-events.js';
+export * from './logger.js';
+export * from './dump-progress.js';
+export {
+  MigrationMetrics,
+  createMetricsServer,
+  METRICS_CONTENT_TYPE,
+} from './migration-metrics.js';
+export {
+  FileSpanExporter,
+  markSpanFailed,
+  parseTraceExporter,
+  serializeSpan,
+  setupTracing,
+  withSpan,
+  TRACE_EXPORTERS,
+  TRACER_NAME,
+} from './tracing.js';
+export type { TraceExporter, TracingHandle, TracingOptions } from './tracing.js';
+export {
+  WebhookNotifier,
+  parseWebhookUrls,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhooks.js';
+export type {
+  WebhookConfig,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookPayload,
+} from './webhooks.js';
+
+async function runEvent(eventJson: string): Promise<void> {
+  let event: MigrationEvent;
+  try {
+    event = JSON.parse(eventJson);
+  } catch {
+    console.error('❌ MIGRATION_EVENT must be a JSON migration event');
+    process.exit(1);
+  }
+
+  const result = await handler(event, { onLog: line => console.log(line) });
+  console.log(JSON.stringify(result, null, 2));
+  process.exitCode = result.success ? 0 : 1;
+}
+
+async function startControlPlane(): Promise<void> {
+  const token = process.env.CONTROL_PLANE_TOKEN;
+  if (!token) {
+    console.error('❌ CONTROL_PLANE_TOKEN must be set to start the control plane');
+    console.error('   (or set MIGRATION_EVENT to run a single migration event)');
+    process.exit(1);
+  }
+
+  // Job logs also go to the container's output
+  const server = new ControlPlaneServer({
+    token,
+    port: parseInt(process.env.PORT || '3000'),
+    handler: (event: MigrationEvent, context: HandlerContext) =>
+      handler(event, {
+        onLog: line => {
+          console.log(line);
+          context.onLog?.(line);
+        },
+      }),
+  });
+  const address = await server.start();
+  console.log(`🛰️  Migration control plane listening on port ${address.port}`);
+
+  process.on('SIGTERM', () => {
+    server.stop().then(() => process.exit(0));
+  });
+}
+
+// Execute if called directly
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const main = process.env.MIGRATION_EVENT
+    ? runEvent(process.env.MIGRATION_EVENT)
+    : startControlPlane();
+  main.catch(error => {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,417 @@
+/**
+ * Late Writes
+ *
+ * Writes that reach `backup_<timestamp>` tables after the swap come from stale application
+ * connections (cached plans, or transactions that were waiting on the swap) and from sync
+ * triggers still firing until Phase 5 drops them; without capture they are silently lost.
+ * Once the swap commits, a capture trigger is installed on every backup table that journals
+ * each INSERT/UPDATE/DELETE into `migration_meta.late_writes`. `reconcileLateWrites` lists the
+ * journal and can replay it into the new `public` schema by primary key, reporting the writes
+ * that conflict with the current rows instead of overwriting them.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { DatabaseConfig } from './migration-core.js';
+import { LEDGER_SCHEMA, MigrationLedger } from './migration-ledger.js';
+
+export const LATE_WRITES_TABLE = `${LEDGER_SCHEMA}.late_writes`;
+export const LATE_WRITE_CAPTURE_FUNCTION = `${LEDGER_SCHEMA}.capture_late_write`;
+export const LATE_WRITE_TRIGGER = 'migration_late_write_capture';
+
+export type LateWriteOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+/**
+ * Outcome of replaying a late write:
+ * - `applied`: the change was made in `public`
+ * - `skipped`: `public` already reflects it (e.g. the row was already deleted)
+ * - `conflict`: the row in `public` differs from what the write expected, or the write failed
+ */
+export type ReplayStatus = 'applied' | 'skipped' | 'conflict';
+
+export interface LateWrite {
+  id: number;
+  backupSchema: string;
+  tableName: string;
+  operation: LateWriteOperation;
+  /** Row before the write (UPDATE, DELETE) */
+  oldRow: Record<string, unknown> | null;
+  /** Row after the write (INSERT, UPDATE) */
+  newRow: Record<string, unknown> | null;
+  capturedAt: Date;
+  user: string;
+  applicationName: string | null;
+  replayStatus: ReplayStatus | null;
+  replayDetail: string | null;
+  replayedAt: Date | null;
+}
+
+export interface ReplayOutcome {
+  id: number;
+  tableName: string;
+  operation: LateWriteOperation;
+  status: ReplayStatus;
+  detail?: string;
+}
+
+export interface ReconcileOptions {
+  /** Backup schema whose late writes are reconciled (default: that of the latest swap) */
+  backupSchema?: string;
+  /** Replay the pending writes into `public`; otherwise they are only listed */
+  apply?: boolean;
+}
+
+export interface ReconcileResult {
+  backupSchema: string;
+  /** Writes not replayed yet, including earlier conflicts, as they were before this run */
+  pending: LateWrite[];
+  /** Outcome of each replayed write, empty unless applying */
+  replayed: ReplayOutcome[];
+}
+
+/**
+ * Create the journal table and the capture function if they do not already exist
+ * The function runs as its owner, so application roles without access to the journal can
+ * still have their late writes captured.
+ */
+export async function ensureLateWriteJournal(client: PoolClient): Promise<void> {
+  await client.query(`CREATE SCHEMA IF NOT EXISTS ${LEDGER_SCHEMA}`);
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS ${LATE_WRITES_TABLE} (
+      id BIGSERIAL PRIMARY KEY,
+      backup_schema TEXT NOT NULL,
+      table_name TEXT NOT NULL,
+      operation TEXT NOT NULL,
+      old_row JSONB,
+      new_row JSONB,
+      captured_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+      username TEXT NOT NULL DEFAULT session_user,
+      application_name TEXT DEFAULT current_setting('application_name', true),
+      replay_status TEXT,
+      replay_detail TEXT,
+      replayed_at TIMESTAMPTZ
+    )
+  `);
+  await client.query(`
+    CREATE OR REPLACE FUNCTION ${LATE_WRITE_CAPTURE_FUNCTION}()
+    RETURNS TRIGGER
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path = pg_catalog
+    AS $$
+    BEGIN
+      INSERT INTO ${LATE_WRITES_TABLE} (backup_schema, table_name, operation, old_row, new_row)
+      VALUES (
+        TG_TABLE_SCHEMA,
+        TG_TABLE_NAME,
+        TG_OP,
+        CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END,
+        CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END
+      );
+      RETURN NULL;
+    END;
+    $$
+  `);
+}
+
+/**
+ * Install the capture trigger on every table of a schema in a single statement, so it takes one
+ * round trip however many tables there are
+ */
+export async function installLateWriteCapture(
+  client: PoolClient,
+  schemaName: string
+): Promise<void> {
+  await client.query(`
+    DO $$
+    DECLARE
+      rel regclass;
+    BEGIN
+      FOR rel IN
+        SELECT c.oid::regclass FROM pg_class c
+        WHERE c.relnamespace = ${quoteLiteral(schemaName)}::regnamespace
+          AND c.relkind IN ('r', 'p')
+          AND NOT c.relispartition
+      LOOP
+        EXECUTE format(
+          'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %s FOR EACH ROW EXECUTE FUNCTION ${LATE_WRITE_CAPTURE_FUNCTION}()',
+          '${LATE_WRITE_TRIGGER}',
+          rel
+        );
+      END LOOP;
+    END $$
+  `);
+}
+
+/**
+ * Remove the capture triggers from the tables of a schema, e.g. before it is restored as public
+ */
+export async function dropLateWriteCapture(client: PoolClient, schemaName: string): Promise<void> {
+  await client.query(`
+    DO $$
+    DECLARE
+      rel regclass;
+    BEGIN
+      FOR rel IN
+        SELECT t.tgrelid::regclass FROM pg_trigger t
+        JOIN pg_class c ON c.oid = t.tgrelid
+        WHERE t.tgname = '${LATE_WRITE_TRIGGER}'
+          AND c.relnamespace = ${quoteLiteral(schemaName)}::regnamespace
+          AND NOT t.tgisinternal
+      LOOP
+        EXECUTE format('DROP TRIGGER IF EXISTS %I ON %s', '${LATE_WRITE_TRIGGER}', rel);
+      END LOOP;
+    END $$
+  `);
+}
+
+/**
+ * List the late writes journaled for a backup schema and optionally replay them into `public`
+ * Each write is replayed in its own transaction together with its journal update, in the
+ * order it was captured. Conflicting writes are left for a later run.
+ */
+export async function reconcileLateWrites(
+  destConfig: DatabaseConfig,
+  options: ReconcileOptions = {}
+): Promise<ReconcileResult> {
+  const pool = new Pool({
+    ...destConfig,
+    ssl: destConfig.ssl !== false ? { rejectUnauthorized: false } : false,
+  });
+
+  try {
+    const backupSchema =
+      options.backupSchema ?? (await new MigrationLedger(pool).getLatestSwap())?.backupSchema;
+    if (!backupSchema) {
+      throw new Error('No swapped migration found in the ledger - specify the backup timestamp');
+    }
+
+    const client = await pool.connect();
+    try {
+      const journal = await client.query('SELECT to_regclass($1) IS NOT NULL AS exists', [
+        LATE_WRITES_TABLE,
+      ]);
+      if (!journal.rows[0].exists) {
+        return { backupSchema, pending: [], replayed: [] };
+      }
+
+      const result = await client.query(
+        `SELECT * FROM ${LATE_WRITES_TABLE}
+         WHERE backup_schema = $1 AND (replay_status IS NULL OR replay_status = 'conflict')
+         ORDER BY id`,
+        [backupSchema]
+      );
+      const pending = result.rows.map(mapLateWrite);
+      const replayed: ReplayOutcome[] = [];
+
+      if (options.apply) {
+        const tables = new Map<string, TableKeys | null>();
+        for (const write of pending) {
+          replayed.push(await replayAndRecord(client, write, tables));
+        }
+      }
+
+      return { backupSchema, pending, replayed };
+    } finally {
+      client.release();
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+/**
+ * Columns of a public table and its primary key
+ */
+interface TableKeys {
+  columns: string[];
+  primaryKey: string[];
+}
+
+async function replayAndRecord(
+  client: PoolClient,
+  write: LateWrite,
+  tables: Map<string, TableKeys | null>
+): Promise<ReplayOutcome> {
+  let outcome: { status: ReplayStatus; detail?: string };
+  try {
+    await client.query('BEGIN');
+    outcome = await replayLateWrite(client, write, tables);
+    await recordReplay(client, write.id, outcome.status, outcome.detail);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    outcome = {
+      status: 'conflict',
+      detail: `Replay failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+    await recordReplay(client, write.id, outcome.status, outcome.detail);
+  }
+  return { id: write.id, tableName: write.tableName, operation: write.operation, ...outcome };
+}
+
+async function recordReplay(
+  client: PoolClient,
+  id: number,
+  status: ReplayStatus,
+  detail: string | undefined
+): Promise<void> {
+  await client.query(
+    `UPDATE ${LATE_WRITES_TABLE}
+     SET replay_status = $2, replay_detail = $3, replayed_at = now()
+     WHERE id = $1`,
+    [id, status, detail ?? null]
+  );
+}
+
+/**
+ * Apply one late write to the matching public table, keyed by its primary key
+ */
+async function replayLateWrite(
+  client: PoolClient,
+  write: LateWrite,
+  tables: Map<string, TableKeys | null>
+): Promise<{ status: ReplayStatus; detail?: string }> {
+  if (!tables.has(write.tableName)) {
+    tables.set(write.tableName, await readTableKeys(client, write.tableName));
+  }
+  const keys = tables.get(write.tableName);
+  if (!keys) {
+    return { status: 'conflict', detail: `public.${write.tableName} no longer exists` };
+  }
+  if (keys.primaryKey.length === 0) {
+    return { status: 'conflict', detail: `public.${write.tableName} has no primary key` };
+  }
+
+  const table = `public.${quoteIdent(write.tableName)}`;
+  const keyRow = write.oldRow ?? write.newRow ?? {};
+  if (keys.primaryKey.some(column => keyRow[column] === undefined)) {
+    return { status: 'conflict', detail: 'the row has no value for the primary key' };
+  }
+
+  // Compare key columns after casting the journaled values to the table's types
+  const keyColumns = keys.primaryKey.map(quoteIdent).join(', ');
+  const keyMatch = `(${keyColumns}) = (SELECT ${keyColumns} FROM jsonb_populate_record(NULL::${table}, $1))`;
+  // Lock the row so it cannot change between the comparison and the replay
+  const current = await client.query(
+    `SELECT to_jsonb(t) AS row FROM ${table} t WHERE ${keyMatch} FOR UPDATE`,
+    [keyRow]
+  );
+  const currentRow: Record<string, unknown> | undefined = current.rows[0]?.row;
+
+  if (write.operation === 'INSERT') {
+    const newRow = write.newRow ?? {};
+    if (currentRow) {
+      return rowsMatch(currentRow, newRow, keys.columns)
+        ? { status: 'skipped', detail: 'the row is already present' }
+        : { status: 'conflict', detail: 'a different row with the same key exists' };
+    }
+    const columns = keys.columns.filter(column => column in newRow).map(quoteIdent);
+    await client.query(
+      `INSERT INTO ${table} (${columns.join(', ')}) OVERRIDING SYSTEM VALUE
+       SELECT ${columns.join(', ')} FROM jsonb_populate_record(NULL::${table}, $1)`,
+      [newRow]
+    );
+    return { status: 'applied' };
+  }
+
+  const oldRow = write.oldRow ?? {};
+  if (!currentRow) {
+    return write.operation === 'DELETE'
+      ? { status: 'skipped', detail: 'the row was already deleted' }
+      : { status: 'conflict', detail: 'the row no longer exists' };
+  }
+  if (!rowsMatch(currentRow, oldRow, keys.columns)) {
+    return { status: 'conflict', detail: 'the row changed since the swap' };
+  }
+
+  if (write.operation === 'DELETE') {
+    await client.query(`DELETE FROM ${table} WHERE ${keyMatch}`, [oldRow]);
+    return { status: 'applied' };
+  }
+
+  const newRow = write.newRow ?? {};
+  const changed = keys.columns.filter(
+    column => column in newRow && JSON.stringify(newRow[column]) !== JSON.stringify(oldRow[column])
+  );
+  if (changed.length === 0) {
+    return { status: 'skipped', detail: 'the update changed no columns' };
+  }
+  const columns = changed.map(quoteIdent).join(', ');
+  await client.query(
+    `UPDATE ${table}
+     SET (${columns}) = (SELECT ${columns} FROM jsonb_populate_record(NULL::${table}, $2))
+     WHERE ${keyMatch}`,
+    [oldRow, newRow]
+  );
+  return { status: 'applied' };
+}
+
+/**
+ * Writable columns and primary key of a public table
+ * @returns null when the table does not exist
+ */
+async function readTableKeys(client: PoolClient, tableName: string): Promise<TableKeys | null> {
+  const relation = await client.query('SELECT to_regclass($1) AS oid', [
+    `public.${quoteIdent(tableName)}`,
+  ]);
+  if (!relation.rows[0].oid) {
+    return null;
+  }
+
+  const columns = await client.query(
+    `SELECT attname FROM pg_attribute
+     WHERE attrelid = $1::regclass AND attnum > 0 AND NOT attisdropped AND attgenerated = ''
+     ORDER BY attnum`,
+    [`public.${quoteIdent(tableName)}`]
+  );
+  const primaryKey = await client.query(
+    `SELECT a.attname FROM pg_index i
+     JOIN LATERAL unnest(i.indkey) WITH ORDINALITY AS k(attnum, position) ON true
+     JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.attnum
+     WHERE i.indrelid = $1::regclass AND i.indisprimary
+     ORDER BY k.position`,
+    [`public.${quoteIdent(tableName)}`]
+  );
+  return {
+    columns: columns.rows.map(row => row.attname),
+    primaryKey: primaryKey.rows.map(row => row.attname),
+  };
+}
+
+/**
+ * Whether two rows hold the same values in the given columns present in both
+ */
+function rowsMatch(
+  actual: Record<string, unknown>,
+  expected: Record<string, unknown>,
+  columns: string[]
+): boolean {
+  return columns
+    .filter(column => column in actual && column in expected)
+    .every(column => JSON.stringify(actual[column]) === JSON.stringify(expected[column]));
+}
+
+function mapLateWrite(row: Record<string, unknown>): LateWrite {
+  return {
+    id: Number(row.id),
+    backupSchema: row.backup_schema as string,
+    tableName: row.table_name as string,
+    operation: row.operation as LateWriteOperation,
+    oldRow: (row.old_row as Record<string, unknown> | null) ?? null,
+    newRow: (row.new_row as Record<string, unknown> | null) ?? null,
+    capturedAt: row.captured_at as Date,
+    user: row.username as string,
+    applicationName: (row.application_name as string | null) ?? null,
+    replayStatus: (row.replay_status as ReplayStatus | null) ?? null,
+    replayDetail: (row.replay_detail as string | null) ?? null,
+    replayedAt: (row.replayed_at as Date | null) ?? null,
+  };
+}
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
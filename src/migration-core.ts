@@ -6,11 +6,60 @@
  * zero-downtime database migrations with real-time synchronization.
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
+import { Attributes } from '@opentelemetry/api';
 import { execa } from 'execa';
-import { unlinkSync, existsSync } from 'fs';
+import { existsSync, readdirSync, rmSync, statSync } from 'fs';
 import { join } from 'path';
-import { cpus } from 'os';
+import { cpus, tmpdir } from 'os';
+import { createInterface } from 'readline';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { clearInterval, clearTimeout, setInterval, setTimeout } from 'timers';
+import { setTimeout as sleep } from 'timers/promises';
+import {
+  MigrationCheckpoints,
+  MigrationCommand,
+  MigrationLedger,
+  MigrationLedgerEntry,
+} from './migration-ledger.js';
+import { DumpStorage, ObjectStorageConfig, StoredDumpObject, isS3Uri } from './dump-storage.js';
+import {
+  MigrationEventEmitter,
+  MigrationOperation,
+  PHASE_NAMES,
+  SwapBlocker,
+} from './migration-events.js';
+import { createLogRecord, describeError, formatLogRecord, LogFields, LogRecord } from './logger.js';
+import { markSpanFailed, withSpan } from './tracing.js';
+import {
+  describeFailedDelivery,
+  WebhookConfig,
+  WebhookEventType,
+  WebhookNotifier,
+  WebhookPayload,
+} from './webhooks.js';
+import {
+  DUMP_PROGRESS_CHECKPOINT,
+  DumpProgressReport,
+  DumpProgressStep,
+  DumpProgressTracker,
+  TableProgressUpdate,
+} from './dump-progress.js';
+import {
+  ColumnDefinition,
+  ColumnMappingPlan,
+  describeColumnMapping,
+  readColumnDefinitions,
+  ResolvedColumn,
+  resolveColumnMapping,
+  TableColumnMappings,
+} from './column-mapping.js';
+import {
+  dropLateWriteCapture,
+  ensureLateWriteJournal,
+  installLateWriteCapture,
+} from './late-writes.js';
 
 export interface DatabaseConfig {
   host: string;
@@ -62,17 +111,42 @@ export interface MigrationStats {
   endTime?: Date;
   tablesProcessed: number;
   recordsMigrated: number;
+  /** Size of the archive restored into the destination, or the bytes streamed into it */
+  bytesTransferred: number;
   errors: string[];
   warnings: string[];
+  /** Per-table progress of each pg_dump and pg_restore run, in the order they ran */
+  dumpProgress: DumpProgressReport[];
 }
 
 export interface MigrationResult {
   success: boolean;
+  migrationId?: string;
+  /** WAL position of the source snapshot the dump was taken from */
+  snapshotLsn?: string;
+  /** Metadata of the existing dump archive restored with `fromDump` */
+  dumpMetadata?: DumpMetadata;
   stats: MigrationStats;
   logs: string[];
   error?: string;
 }
 
+/**
+ * Metadata read from the header and table of contents of a dump archive (`pg_restore --list`)
+ */
+export interface DumpMetadata {
+  path: string;
+  format: string;
+  sourceDatabase: string;
+  /** When the archive was created, as reported by pg_restore */
+  dumpedAt: string;
+  serverVersion: string;
+  pgDumpVersion: string;
+  /** Schema holding the dumped tables: `public` dumps are remapped to shadow before restore */
+  schemaName: 'public' | 'shadow';
+  tableCount: number;
+}
+
 export interface SyncTriggerInfo {
   tableName: string;
   functionName: string;
@@ -94,17 +168,241 @@ export interface SyncValidationResult {
   errors: string[];
 }
 
+/**
+ * How Phase 1 dumps the source database:
+ * - `snapshot`: dump the source public schema from an exported snapshot without modifying the
+ *   source (works against read-only replicas); the dump is remapped to the shadow schema on the
+ *   destination server
+ * - `move-tables`: move source tables into a source shadow schema for the dump and back afterwards
+ */
+export type SourceDumpMode = 'snapshot' | 'move-tables';
+
+/**
+ * pg_dump archive format for dump files:
+ * - `custom`: a single archive file, written by one pg_dump process
+ * - `directory`: one file per table, written by `dumpJobs` parallel pg_dump workers
+ */
+export type DumpFormat = 'custom' | 'directory';
+
+/**
+ * How writes to the destination are held off while the schemas are swapped:
+ * - `triggers`: create a write-blocking trigger on every public table before the swap
+ *   transaction and drop them afterwards; writes fail while the triggers exist
+ * - `lock`: `LOCK TABLE ... IN EXCLUSIVE MODE` on every public table inside the swap
+ *   transaction, under its lock timeout; writes wait for the commit while reads continue
+ */
+export type CutoverStrategy = 'triggers' | 'lock';
+
+export const CUTOVER_STRATEGIES: CutoverStrategy[] = ['triggers', 'lock'];
+
+/**
+ * Sync key that identifies a row by all of its columns, like `REPLICA IDENTITY FULL`
+ */
+export const FULL_ROW_SYNC_KEY = 'full-row';
+
+/**
+ * How allowlisted sessions still blocking the swap are stopped:
+ * - `cancel`: cancel the running query with `pg_cancel_backend` (leaves idle transactions open)
+ * - `terminate`: end the session with `pg_terminate_backend`
+ */
+export type BlockerAction = 'cancel' | 'terminate';
+
+/**
+ * Sessions `completeMigration()` may stop when they still hold locks on public tables after
+ * a grace period. A session qualifies when its role or its application_name is allowlisted.
+ */
+export interface BlockerTerminationPolicy {
+  roles?: string[];
+  applications?: string[];
+  /** Time blocking transactions get to finish before they are stopped (default 10000) */
+  gracePeriodMs?: number;
+  /** Default `terminate` */
+  action?: BlockerAction;
+}
+
+/**
+ * How application sessions are moved off the backup schema after the swap:
+ * - `terminate`: end the allowlisted sessions with `pg_terminate_backend`, in waves, so
+ *   connection pools reconnect to the new tables
+ * - `notify`: `NOTIFY` a channel the application listens on, so it can run `DISCARD ALL`
+ */
+export type SessionResetMode = 'terminate' | 'notify';
+
+export const SESSION_RESET_MODES: SessionResetMode[] = ['terminate', 'notify'];
+
+/**
+ * Follow-up on application sessions after the swap, whose cached plans and prepared
+ * statements still point at the tables now in `backup_<timestamp>`
+ */
+export interface SessionResetPolicy {
+  mode: SessionResetMode;
+  /** Application sessions by role; for `terminate` at least one allowlist is required */
+  roles?: string[];
+  /** Application sessions by application_name */
+  applications?: string[];
+  /** Sessions terminated per wave (default 10) */
+  waveSize?: number;
+  /** Pause between termination waves in milliseconds (default 1000) */
+  waveIntervalMs?: number;
+  /** NOTIFY channel for `notify` (default `db_migrations_swap`) */
+  channel?: string;
+  /** Time sessions get to release their locks on the backup schema (default 30000) */
+  verifyTimeoutMs?: number;
+}
+
+export interface MigrationOptions {
+  sourceDumpMode?: SourceDumpMode;
+  /**
+   * Block writes to the source public tables while the dump runs (default: true with
+   * `move-tables`, false with `snapshot`)
+   */
+  blockSourceWrites?: boolean;
+  /** Pipe pg_dump straight into pg_restore instead of writing a dump file */
+  streamDump?: boolean;
+  dumpFormat?: DumpFormat;
+  /** Parallel pg_dump jobs for directory-format dumps (default: min(8, CPUs)) */
+  dumpJobs?: number;
+  /** Parallel pg_restore jobs for dump files (default: min(8, CPUs)) */
+  restoreJobs?: number;
+  /**
+   * Restore this existing dump archive instead of dumping the source (skips Phase 1)
+   * An `s3://bucket/key` URI is downloaded from object storage first
+   */
+  fromDump?: string;
+  /** Keep the dump file after the restore so it can be reused with `fromDump` */
+  keepDump?: boolean;
+  /** Upload the Phase 1 dump to this `s3://bucket/key` URI */
+  uploadDump?: string;
+  objectStorage?: ObjectStorageConfig;
+  /** Webhooks notified of lifecycle events (not sent in dry runs) */
+  webhooks?: WebhookConfig;
+  /** Total time each schema swap attempt may wait for locks in milliseconds (default 5000) */
+  swapLockTimeoutMs?: number;
+  /** Rename attempts after one times out waiting for locks (default 5) */
+  swapRetries?: number;
+  /** Abandon the swap when it has not committed this long after the first attempt (default 60000) */
+  swapDeadlineMs?: number;
+  /** Stop allowlisted sessions holding locks on public tables before the swap */
+  terminateBlockers?: BlockerTerminationPolicy;
+  /** Default `triggers` */
+  cutoverStrategy?: CutoverStrategy;
+  /** Reset application sessions after the swap */
+  sessionReset?: SessionResetPolicy;
+  /** Journal writes that reach the backup schema after the swap (default true) */
+  captureLateWrites?: boolean;
+  /**
+   * How the sync trigger of a preserved table finds the shadow row of an updated or deleted
+   * row, by table name: a unique index, or `full-row` to match every column. Tables not listed
+   * use their primary key; a table without one is refused.
+   */
+  syncKeys?: Record<string, string>;
+  /**
+   * How the columns of a preserved table's shadow table get their values when its definition
+   * differs from the public table, by table name and then shadow column name
+   */
+  columnMappings?: Record<string, TableColumnMappings>;
+}
+
+/**
+ * Schema of a database to dump, optionally from an exported snapshot
+ */
+interface DumpSource {
+  config: DatabaseConfig;
+  schemaName: string;
+  snapshotId?: string;
+}
+
+/**
+ * How a preserved table is copied to its shadow table, resolved before any trigger is created
+ */
+interface PreservedTableSync {
+  plan: ColumnMappingPlan;
+  /** Key columns of the public table, or null for a full row match */
+  keyColumns: string[] | null;
+  /** Condition finding the shadow row of OLD */
+  oldRowMatch: string;
+}
+
+const STREAM_PROGRESS_INTERVAL_MS = 10000;
+
+/**
+ * Minimum time between dump/restore progress writes to the ledger
+ */
+const DUMP_PROGRESS_RECORD_INTERVAL_MS = 5000;
+
+/**
+ * Connections left free for this tool's own queries when capping parallel dump/restore jobs
+ */
+const JOB_CONNECTION_HEADROOM = 2;
+
+const DEFAULT_SWAP_LOCK_TIMEOUT_MS = 5000;
+const DEFAULT_SWAP_RETRIES = 5;
+const DEFAULT_SWAP_DEADLINE_MS = 60000;
+
+/**
+ * Backoff between swap attempts: doubled per attempt up to the maximum, then jittered
+ */
+const SWAP_RETRY_BASE_DELAY_MS = 500;
+const SWAP_RETRY_MAX_DELAY_MS = 10000;
+
+const DEFAULT_BLOCKER_GRACE_PERIOD_MS = 10000;
+
+const DEFAULT_SESSION_RESET_WAVE_SIZE = 10;
+const DEFAULT_SESSION_RESET_WAVE_INTERVAL_MS = 1000;
+const DEFAULT_SESSION_RESET_CHANNEL = 'db_migrations_swap';
+const DEFAULT_SESSION_RESET_VERIFY_TIMEOUT_MS = 30000;
+const BACKUP_LOCK_POLL_INTERVAL_MS = 500;
+
+/**
+ * application_name of the destination connections, so they are never reset as application sessions
+ */
+const MIGRATOR_APPLICATION_NAME = 'db_migrations';
+
+/**
+ * SQLSTATE of a statement canceled by `lock_timeout`
+ */
+const LOCK_NOT_AVAILABLE = '55P03';
+
 export interface PreparationResult {
   success: boolean;
   migrationId: string;
   timestamp: number;
+  /** WAL position of the source snapshot the dump was taken from */
+  snapshotLsn?: string;
+  /** Metadata of the existing dump archive restored with `fromDump` */
+  dumpMetadata?: DumpMetadata;
   activeTriggers: SyncTriggerInfo[];
   stats: MigrationStats;
   logs: string[];
   error?: string;
 }
 
-export class DatabaseMigrator {
+/**
+ * Map a pg_stat_activity row with its granted locks to a blocking session
+ */
+function swapBlockerFromRow(row: QueryResultRow): SwapBlocker {
+  return {
+    pid: row.pid,
+    user: row.usename ?? '',
+    applicationName: row.application_name ?? '',
+    state: row.state ?? 'unknown',
+    query: row.query ?? '',
+    transactionAgeMs: row.xact_age_ms === null ? null : parseInt(row.xact_age_ms),
+    locks: row.locks,
+  };
+}
+
+/**
+ * Whether a termination policy allows stopping a session, by its role or application
+ */
+function isAllowlisted(blocker: SwapBlocker, policy: BlockerTerminationPolicy): boolean {
+  return (
+    (policy.roles ?? []).includes(blocker.user) ||
+    (policy.applications ?? []).includes(blocker.applicationName)
+  );
+}
+
+export class DatabaseMigrator extends MigrationEventEmitter {
   private sourceConfig: DatabaseConfig;
   private destConfig: DatabaseConfig;
   private sourcePool: Pool;
@@ -115,13 +413,113 @@ export class DatabaseMigrator {
   private dryRun: boolean;
   private activeSyncTriggers: SyncTriggerInfo[] = [];
   private logBuffer: string[] = [];
+  private ledger: MigrationLedger;
+  private migrationId?: string;
+  private checkpoints: MigrationCheckpoints = new Map();
+  private sourceDumpMode: SourceDumpMode;
+  private blockSourceWrites: boolean;
+  /** Options as given, so a resume can tell defaults from explicit choices */
+  private requestedSourceDumpMode?: SourceDumpMode;
+  private requestedBlockSourceWrites?: boolean;
+  private streamDump: boolean;
+  private dumpFormat: DumpFormat;
+  private dumpJobs?: number;
+  private restoreJobs?: number;
+  private fromDump?: string;
+  private keepDump: boolean;
+  private uploadDump?: string;
+  private objectStorage: ObjectStorageConfig;
+  private dumpStorage?: DumpStorage;
+  private snapshotLsn?: string;
+  private dumpMetadata?: DumpMetadata;
+  /** Phase in progress, recorded on log records */
+  private currentPhase?: number;
+  /** Source size of each table, weighting the dump and restore progress estimates */
+  private tableSizes = new Map<string, number>();
+  private dumpProgressWrite: Promise<void> = Promise.resolve();
+  private dumpProgressRecordedAt = 0;
+  private webhooks?: WebhookNotifier;
+  /** Public operation in progress, reported in webhook payloads */
+  private operation: MigrationOperation = 'migrate';
+  /** Whether completion phases started, so failures are reported as swap failures */
+  private completionStarted = false;
+  /**
+   * How a failed completion ended: swapped back automatically, left for an operator, or
+   * abandoned before anything was renamed
+   */
+  private swapRecovery?: 'rolled_back' | 'manual_intervention' | 'abandoned';
+  private swapLockTimeoutMs: number;
+  private swapRetries: number;
+  private swapDeadlineMs: number;
+  private terminateBlockers?: BlockerTerminationPolicy;
+  private cutoverStrategy: CutoverStrategy;
+  private sessionReset?: SessionResetPolicy;
+  private captureLateWrites: boolean;
+  /** Sync keys by lowercased table name */
+  private syncKeys: Map<string, string>;
+  /** Column mappings by lowercased table name */
+  private columnMappings: Map<string, TableColumnMappings>;
 
   constructor(
     sourceConfig: DatabaseConfig,
     destConfig: DatabaseConfig,
     preservedTables: string[] = [],
-    dryRun: boolean = false
+    dryRun: boolean = false,
+    options: MigrationOptions = {}
   ) {
+    super();
+
+    if (options.streamDump && options.dumpFormat === 'directory') {
+      throw new Error('Streamed dumps cannot use the directory format');
+    }
+    if (options.streamDump && options.fromDump) {
+      throw new Error('Streamed dumps cannot restore an existing dump file');
+    }
+    if (options.streamDump && options.uploadDump) {
+      throw new Error('Streamed dumps cannot be uploaded to object storage');
+    }
+    if (options.swapLockTimeoutMs !== undefined && !(options.swapLockTimeoutMs > 0)) {
+      throw new Error('The swap lock timeout must be a positive number of milliseconds');
+    }
+    if (options.swapRetries !== undefined && !(options.swapRetries >= 0)) {
+      throw new Error('Swap retries cannot be negative');
+    }
+    if (options.swapDeadlineMs !== undefined && !(options.swapDeadlineMs > 0)) {
+      throw new Error('The swap deadline must be a positive number of milliseconds');
+    }
+    if (
+      options.terminateBlockers &&
+      !options.terminateBlockers.roles?.length &&
+      !options.terminateBlockers.applications?.length
+    ) {
+      throw new Error('Terminating blockers requires an allowlist of roles or applications');
+    }
+    if (options.cutoverStrategy && !CUTOVER_STRATEGIES.includes(options.cutoverStrategy)) {
+      throw new Error(
+        `Invalid cutover strategy: ${options.cutoverStrategy} (expected ${CUTOVER_STRATEGIES.join(' or ')})`
+      );
+    }
+    if (options.sessionReset) {
+      const { mode, roles, applications, waveSize } = options.sessionReset;
+      if (!SESSION_RESET_MODES.includes(mode)) {
+        throw new Error(
+          `Invalid session reset mode: ${mode} (expected ${SESSION_RESET_MODES.join(' or ')})`
+        );
+      }
+      if (mode === 'terminate' && !roles?.length && !applications?.length) {
+        throw new Error('Terminating sessions requires an allowlist of roles or applications');
+      }
+      if (waveSize !== undefined && !(waveSize >= 1)) {
+        throw new Error('The session reset wave size must be at least 1');
+      }
+    }
+    if (
+      options.terminateBlockers?.gracePeriodMs !== undefined &&
+      !(options.terminateBlockers.gracePeriodMs >= 0)
+    ) {
+      throw new Error('The blocker grace period cannot be negative');
+    }
+
     this.sourceConfig = sourceConfig;
     this.destConfig = destConfig;
 
@@ -133,18 +531,54 @@ export class DatabaseMigrator {
     this.destPool = new Pool({
       ...this.destConfig,
       ssl: this.destConfig.ssl !== false ? { rejectUnauthorized: false } : false,
+      application_name: MIGRATOR_APPLICATION_NAME,
     });
 
+    this.ledger = new MigrationLedger(this.destPool);
+
     this.preservedTables = new Set(preservedTables);
-    this.tempDir = '/tmp';
+    this.tempDir = tmpdir();
     this.dryRun = dryRun;
+    this.sourceDumpMode = options.sourceDumpMode ?? 'move-tables';
+    this.blockSourceWrites = options.blockSourceWrites ?? this.sourceDumpMode === 'move-tables';
+    this.requestedSourceDumpMode = options.sourceDumpMode;
+    this.requestedBlockSourceWrites = options.blockSourceWrites;
+    this.streamDump = options.streamDump ?? false;
+    this.dumpFormat = options.dumpFormat ?? 'custom';
+    this.dumpJobs = options.dumpJobs;
+    this.restoreJobs = options.restoreJobs;
+    this.fromDump = options.fromDump;
+    this.keepDump = options.keepDump ?? false;
+    this.uploadDump = options.uploadDump;
+    this.objectStorage = options.objectStorage ?? {};
+    if (options.webhooks && options.webhooks.urls.length > 0) {
+      this.webhooks = new WebhookNotifier(options.webhooks);
+    }
+    this.swapLockTimeoutMs = options.swapLockTimeoutMs ?? DEFAULT_SWAP_LOCK_TIMEOUT_MS;
+    this.swapRetries = options.swapRetries ?? DEFAULT_SWAP_RETRIES;
+    this.swapDeadlineMs = options.swapDeadlineMs ?? DEFAULT_SWAP_DEADLINE_MS;
+    this.terminateBlockers = options.terminateBlockers;
+    this.cutoverStrategy = options.cutoverStrategy ?? 'triggers';
+    this.sessionReset = options.sessionReset;
+    this.captureLateWrites = options.captureLateWrites ?? true;
+    this.syncKeys = new Map(
+      Object.entries(options.syncKeys ?? {}).map(([table, key]) => [table.toLowerCase(), key])
+    );
+    this.columnMappings = new Map(
+      Object.entries(options.columnMappings ?? {}).map(([table, mappings]) => [
+        table.toLowerCase(),
+        mappings,
+      ])
+    );
 
     this.stats = {
       startTime: new Date(),
       tablesProcessed: 0,
       recordsMigrated: 0,
+      bytesTransferred: 0,
       errors: [],
       warnings: [],
+      dumpProgress: [],
     };
   }
 
@@ -152,6 +586,14 @@ export class DatabaseMigrator {
    * Main migration method
    */
   async migrate(): Promise<MigrationResult> {
+    this.operation = 'migrate';
+    const result = await this.traceOperation('migrate', () => this.runMigrate());
+    await this.notifyResult(result);
+    return result;
+  }
+
+  private async runMigrate(): Promise<MigrationResult> {
+    let failure: unknown;
     try {
       this.log('🚀 Starting database migration...');
       this.log(`📊 Dry run mode: ${this.dryRun ? 'ENABLED' : 'DISABLED'}`);
@@ -171,6 +613,7 @@ export class DatabaseMigrator {
         await this.performDryRun(sourceTables, destTables);
         return {
           success: true,
+          dumpMetadata: this.dumpMetadata,
           stats: this.stats,
           logs: [...this.logBuffer],
         };
@@ -186,20 +629,29 @@ export class DatabaseMigrator {
 
       return {
         success: true,
+        migrationId: this.migrationId,
+        snapshotLsn: this.getSnapshotLsn(),
+        dumpMetadata: this.getDumpMetadata(),
         stats: this.stats,
         logs: [...this.logBuffer],
       };
     } catch (error) {
+      failure = error;
       this.logError('Migration failed', error);
+      await this.recordLedgerFailure(error);
 
       return {
         success: false,
+        migrationId: this.migrationId,
+        snapshotLsn: this.getSnapshotLsn(),
+        dumpMetadata: this.getDumpMetadata(),
         stats: this.stats,
         logs: [...this.logBuffer],
-        error: error instanceof Error ? error.message : String(error),
+        error: describeError(error),
       };
     } finally {
       await this.cleanup();
+      this.emitFinished('migrate', failure);
     }
   }
 
@@ -207,12 +659,20 @@ export class DatabaseMigrator {
    * Prepare migration (Phases 1-3): Creates dump, restores to shadow, sets up sync triggers
    */
   async prepareMigration(): Promise<PreparationResult> {
+    this.operation = 'prepare';
+    const result = await this.traceOperation('prepareMigration', () => this.runPrepareMigration());
+    await this.notifyResult(result);
+    return result;
+  }
+
+  private async runPrepareMigration(): Promise<PreparationResult> {
+    let failure: unknown;
     try {
       this.log('🚀 Starting migration preparation...');
       this.log(`📊 Dry run mode: ${this.dryRun ? 'ENABLED' : 'DISABLED'}`);
 
       const timestamp = Date.now();
-      const migrationId = `migration_${timestamp}_${this.sourceConfig.database}_to_${this.destConfig.database}`;
+      const migrationId = this.buildMigrationId(timestamp);
 
       // Pre-migration checks
       await this.performPreMigrationChecks();
@@ -232,6 +692,7 @@ export class DatabaseMigrator {
           success: true,
           migrationId,
           timestamp,
+          dumpMetadata: this.dumpMetadata,
           activeTriggers: [],
           stats: this.stats,
           logs: [...this.logBuffer],
@@ -239,20 +700,25 @@ export class DatabaseMigrator {
       }
 
       // Perform actual preparation phases
-      await this.doPreparation(sourceTables, destTables, timestamp, migrationId);
+      await this.doPreparation(sourceTables, destTables, timestamp, migrationId, 'prepare');
 
+      this.log('💡 Run the swap command when ready to complete migration');
       this.log('✅ Migration preparation completed successfully');
 
       return {
         success: true,
         migrationId,
+        snapshotLsn: this.getSnapshotLsn(),
+        dumpMetadata: this.getDumpMetadata(),
         timestamp,
         activeTriggers: [...this.activeSyncTriggers],
         stats: this.stats,
         logs: [...this.logBuffer],
       };
     } catch (error) {
+      failure = error;
       this.logError('Migration preparation failed', error);
+      await this.recordLedgerFailure(error);
 
       return {
         success: false,
@@ -261,32 +727,65 @@ export class DatabaseMigrator {
         activeTriggers: [],
         stats: this.stats,
         logs: [...this.logBuffer],
-        error: error instanceof Error ? error.message : String(error),
+        error: describeError(error),
       };
     } finally {
       await this.cleanup();
+      this.emitFinished('prepare', failure);
     }
   }
 
   /**
    * Complete migration (Phases 4-7): Performs schema swap, cleanup, and finalization
-   * Uses database introspection instead of state files for validation
+   * Uses database introspection and the migration ledger for validation
+   * @param preservedTables Tables expected to have sync triggers (defaults to those recorded at prepare)
+   * @param expectedTimestamp Timestamp printed by the prepare command; the swap is refused if the
+   *   shadow schema belongs to a different migration
    */
-  async completeMigration(preservedTables: string[] = []): Promise<MigrationResult> {
+  async completeMigration(
+    preservedTables: string[] = [],
+    expectedTimestamp?: number
+  ): Promise<MigrationResult> {
+    this.operation = 'complete';
+    const result = await this.traceOperation('completeMigration', () =>
+      this.runCompleteMigration(preservedTables, expectedTimestamp)
+    );
+    await this.notifyResult(result);
+    return result;
+  }
+
+  private async runCompleteMigration(
+    preservedTables: string[],
+    expectedTimestamp?: number
+  ): Promise<MigrationResult> {
+    let failure: unknown;
     try {
       this.log('🚀 Starting migration completion...');
 
+      // Identify which prepared migration produced the current shadow schema
+      const shadowStamp = await this.ledger.getShadowSchemaStamp();
+      const ledgerEntry = shadowStamp ? await this.ledger.getEntry(shadowStamp) : null;
+      const expectedPreservedTables =
+        preservedTables.length > 0 ? preservedTables : ledgerEntry?.preservedTables || [];
+
       // Validate migration readiness using database introspection
-      await this.validateMigrationReadiness(preservedTables);
+      await this.validateMigrationReadiness(expectedPreservedTables);
 
-      // Detect timestamp from existing backup schemas if not provided
-      const timestamp = await this.detectMigrationTimestamp();
+      // Refuse to swap a shadow schema that is stale or was not produced by prepare
+      const preparedMigration = this.assertSwappableMigration(
+        shadowStamp,
+        ledgerEntry,
+        expectedTimestamp
+      );
+      this.migrationId = preparedMigration.migrationId;
+      this.checkpoints = await this.ledger.getCheckpoints(preparedMigration.migrationId);
+      this.restoreActiveSyncTriggers(expectedPreservedTables);
 
       // Get table info for completion phases
       const sourceTables = await this.analyzeSchema(this.destPool, 'shadow');
 
       // Perform completion phases
-      await this.doCompletion(sourceTables, timestamp);
+      await this.doCompletion(sourceTables, preparedMigration.timestamp);
 
       this.stats.endTime = new Date();
       this.logSummary();
@@ -295,21 +794,261 @@ export class DatabaseMigrator {
 
       return {
         success: true,
+        migrationId: this.migrationId,
+        snapshotLsn: this.getSnapshotLsn(),
+        dumpMetadata: this.getDumpMetadata(),
         stats: this.stats,
         logs: [...this.logBuffer],
       };
     } catch (error) {
+      failure = error;
       this.logError('Migration completion failed', error);
+      await this.recordLedgerFailure(error);
+
+      return {
+        success: false,
+        migrationId: this.migrationId,
+        snapshotLsn: this.getSnapshotLsn(),
+        dumpMetadata: this.getDumpMetadata(),
+        stats: this.stats,
+        logs: [...this.logBuffer],
+        error: describeError(error),
+      };
+    } finally {
+      await this.cleanup();
+      this.emitFinished('complete', failure);
+    }
+  }
+
+  /**
+   * Resume an interrupted migration from its last completed checkpoint
+   * Preparation phases resume when they did not finish; completion phases resume when the
+   * swap had started or the migration was started with the single-phase `start` command.
+   * @param expectedTimestamp Timestamp of the migration to resume (defaults to the latest)
+   */
+  async resumeMigration(expectedTimestamp?: number): Promise<MigrationResult> {
+    this.operation = 'resume';
+    const result = await this.traceOperation('resumeMigration', () =>
+      this.runResumeMigration(expectedTimestamp)
+    );
+    await this.notifyResult(result);
+    return result;
+  }
+
+  private async runResumeMigration(expectedTimestamp?: number): Promise<MigrationResult> {
+    let failure: unknown;
+    try {
+      this.log('🚀 Resuming interrupted migration...');
+
+      const entry =
+        expectedTimestamp !== undefined
+          ? await this.ledger.getEntryByTimestamp(expectedTimestamp)
+          : await this.ledger.getLatestEntry();
+
+      if (!entry) {
+        throw new Error(
+          expectedTimestamp !== undefined
+            ? `No migration with timestamp ${expectedTimestamp} recorded in the migration ledger`
+            : 'No migration recorded in the migration ledger'
+        );
+      }
+
+      if (['completed', 'rolled_back', 'superseded'].includes(entry.status)) {
+        throw new Error(
+          `Migration ${entry.migrationId} is '${entry.status}' and cannot be resumed`
+        );
+      }
+
+      this.migrationId = entry.migrationId;
+      this.checkpoints = await this.ledger.getCheckpoints(entry.migrationId);
+      this.preservedTables = new Set(entry.preservedTables);
+
+      this.log(`📒 Resuming migration: ${entry.migrationId} (${entry.status})`);
+      this.log(
+        `✅ Completed checkpoints: ${[...this.checkpoints.keys()].filter(key => key.startsWith('phase_')).join(', ') || 'none'}`
+      );
+
+      if (!this.checkpoints.has('phase_3')) {
+        await this.resumePreparation(entry);
+
+        if (entry.command === 'prepare') {
+          this.stats.endTime = new Date();
+          this.logSummary();
+          this.log('💡 Run the swap command when ready to complete migration');
+          this.log('✅ Migration preparation resumed and completed successfully');
+          return {
+            success: true,
+            migrationId: this.migrationId,
+            snapshotLsn: this.getSnapshotLsn(),
+            dumpMetadata: this.getDumpMetadata(),
+            stats: this.stats,
+            logs: [...this.logBuffer],
+          };
+        }
+      } else if (entry.command === 'prepare' && entry.swapStartedAt === null) {
+        this.log('ℹ️  Preparation already completed and no swap was started');
+        this.log('💡 Run the swap command to complete the migration');
+        return {
+          success: true,
+          migrationId: this.migrationId,
+          snapshotLsn: this.getSnapshotLsn(),
+          dumpMetadata: this.getDumpMetadata(),
+          stats: this.stats,
+          logs: [...this.logBuffer],
+        };
+      }
+
+      await this.resumeCompletion(entry);
+
+      this.stats.endTime = new Date();
+      this.logSummary();
+
+      this.log('✅ Migration resumed and completed successfully');
+
+      return {
+        success: true,
+        migrationId: this.migrationId,
+        snapshotLsn: this.getSnapshotLsn(),
+        dumpMetadata: this.getDumpMetadata(),
+        stats: this.stats,
+        logs: [...this.logBuffer],
+      };
+    } catch (error) {
+      failure = error;
+      this.logError('Migration resume failed', error);
+      await this.recordLedgerFailure(error);
 
       return {
         success: false,
+        migrationId: this.migrationId,
+        snapshotLsn: this.getSnapshotLsn(),
+        dumpMetadata: this.getDumpMetadata(),
         stats: this.stats,
         logs: [...this.logBuffer],
-        error: error instanceof Error ? error.message : String(error),
+        error: describeError(error),
       };
     } finally {
       await this.cleanup();
+      this.emitFinished('resume', failure);
+    }
+  }
+
+  /**
+   * Continue preparation phases (1-3) of a recorded migration
+   */
+  private async resumePreparation(entry: MigrationLedgerEntry): Promise<void> {
+    if (
+      this.sourceConfig.host !== entry.sourceHost ||
+      this.sourceConfig.port !== entry.sourcePort ||
+      this.sourceConfig.database !== entry.sourceDatabase
+    ) {
+      throw new Error(
+        `Resuming preparation requires the original source database (${entry.sourceHost}:${entry.sourcePort}/${entry.sourceDatabase})`
+      );
+    }
+
+    // The mode decides how an interrupted dump is recovered, so it comes from the ledger
+    if (entry.sourceDumpMode && entry.sourceDumpMode !== this.sourceDumpMode) {
+      if (this.requestedSourceDumpMode) {
+        throw new Error(
+          `Migration ${entry.migrationId} was started with source dump mode ${entry.sourceDumpMode}, not ${this.requestedSourceDumpMode}`
+        );
+      }
+      this.sourceDumpMode = entry.sourceDumpMode;
+      this.blockSourceWrites =
+        this.requestedBlockSourceWrites ?? this.sourceDumpMode === 'move-tables';
+      this.log(`📒 Using source dump mode ${this.sourceDumpMode} recorded in the ledger`);
+    }
+
+    await this.performPreMigrationChecks();
+
+    // A move-tables dump interrupted in Phase 1 can leave source tables in the source shadow schema
+    if (!this.checkpoints.has('phase_1') && this.sourceDumpMode === 'move-tables') {
+      await this.recoverInterruptedSourceDump();
+    }
+
+    const sourceTables = await this.analyzeSchema(this.sourcePool, 'source');
+    const destTables = await this.analyzeSchema(this.destPool, 'destination');
+
+    await this.doPreparation(
+      sourceTables,
+      destTables,
+      entry.timestamp,
+      entry.migrationId,
+      entry.command
+    );
+  }
+
+  /**
+   * Continue completion phases (4-7) of a recorded migration
+   */
+  private async resumeCompletion(entry: MigrationLedgerEntry): Promise<void> {
+    const client = await this.destPool.connect();
+    let swapCommitted: boolean;
+    let swapRolledBack: boolean;
+
+    try {
+      const schemas = await client.query(
+        `SELECT schema_name FROM information_schema.schemata WHERE schema_name IN ($1, $2)`,
+        [`backup_${entry.timestamp}`, `failed_migration_${entry.timestamp}`]
+      );
+      const schemaNames = schemas.rows.map((row: any) => row.schema_name);
+      swapCommitted = schemaNames.includes(`backup_${entry.timestamp}`);
+      swapRolledBack = schemaNames.includes(`failed_migration_${entry.timestamp}`);
+    } finally {
+      client.release();
+    }
+
+    if (swapRolledBack) {
+      throw new Error(
+        `Migration ${entry.migrationId} was automatically rolled back (failed_migration_${entry.timestamp} exists) - run the prepare command again`
+      );
+    }
+
+    if (swapCommitted && !this.checkpoints.has('phase_4')) {
+      // The swap transaction committed but the process stopped before recording it
+      this.log(`ℹ️  Schema swap already committed (backup_${entry.timestamp} exists)`);
+      await this.recordCheckpoint('phase_4', { backupSchema: `backup_${entry.timestamp}` });
     }
+
+    if (!this.checkpoints.has('phase_4')) {
+      await this.validateMigrationReadiness(entry.preservedTables);
+
+      const shadowStamp = await this.ledger.getShadowSchemaStamp();
+      if (shadowStamp !== entry.migrationId) {
+        throw new Error(
+          `Shadow schema belongs to ${shadowStamp || 'an unrecorded migration'}, not ${entry.migrationId} - refusing to swap a stale shadow schema`
+        );
+      }
+    }
+
+    this.restoreActiveSyncTriggers(entry.preservedTables);
+
+    const sourceTables = await this.analyzeSchema(this.destPool, 'shadow');
+    await this.doCompletion(sourceTables, entry.timestamp);
+  }
+
+  /**
+   * Move source tables left in the source shadow schema by an interrupted dump back to public
+   */
+  private async recoverInterruptedSourceDump(): Promise<void> {
+    const leftoverTables = await this.sourcePool.query(`
+      SELECT tablename
+      FROM pg_tables
+      WHERE schemaname = 'shadow'
+    `);
+
+    if (leftoverTables.rows.length === 0) {
+      return;
+    }
+
+    this.log(
+      `⚠️  Found ${leftoverTables.rows.length} source tables left in shadow schema by an interrupted dump`
+    );
+    await this.disableWriteProtection();
+    await this.restoreSourceFromShadowDump(
+      leftoverTables.rows.map((row: any) => ({ tableName: row.tablename }))
+    );
   }
 
   /**
@@ -445,52 +1184,279 @@ export class DatabaseMigrator {
   }
 
   /**
-   * Detect migration timestamp from database state
+   * Verify the shadow schema belongs to a prepared migration recorded in the ledger
+   * and return that ledger entry
    */
-  private async detectMigrationTimestamp(): Promise<number> {
-    // Generate new timestamp for this migration completion
-    const timestamp = Date.now();
-    this.log(`📅 Using timestamp: ${timestamp}`);
-    return timestamp;
+  private assertSwappableMigration(
+    shadowStamp: string | null,
+    ledgerEntry: MigrationLedgerEntry | null,
+    expectedTimestamp?: number
+  ): MigrationLedgerEntry {
+    if (!shadowStamp) {
+      throw new Error(
+        'Shadow schema is not tagged with a migration ID - refusing to swap a shadow schema that was not created by the prepare command'
+      );
+    }
+
+    if (!ledgerEntry) {
+      throw new Error(
+        `Shadow schema belongs to migration ${shadowStamp}, which is not recorded in the migration ledger - refusing to swap a foreign shadow schema`
+      );
+    }
+
+    if (expectedTimestamp !== undefined && ledgerEntry.timestamp !== expectedTimestamp) {
+      throw new Error(
+        `Shadow schema belongs to migration ${ledgerEntry.migrationId} (timestamp ${ledgerEntry.timestamp}), not timestamp ${expectedTimestamp} - refusing to swap a stale shadow schema`
+      );
+    }
+
+    if (ledgerEntry.status !== 'prepared') {
+      throw new Error(
+        `Migration ${ledgerEntry.migrationId} is '${ledgerEntry.status}', not 'prepared' - refusing to swap a stale shadow schema`
+      );
+    }
+
+    this.log(`📒 Completing prepared migration: ${ledgerEntry.migrationId}`);
+    this.log(
+      `📍 Prepared from: ${ledgerEntry.sourceHost}:${ledgerEntry.sourcePort}/${ledgerEntry.sourceDatabase} at ${ledgerEntry.preparedAt?.toISOString() || 'unknown'}`
+    );
+    this.log(`📅 Using timestamp: ${ledgerEntry.timestamp}`);
+
+    return ledgerEntry;
   }
 
   /**
-   * Perform preparation phases (1-3)
+   * Build the migration ID recorded in the ledger and on the shadow schema
    */
-  private async doPreparation(
-    sourceTables: TableInfo[],
+  private buildMigrationId(timestamp: number): string {
+    return `migration_${timestamp}_${this.sourceConfig.database}_to_${this.destConfig.database}`;
+  }
+
+  /**
+   * Record the start of a preparation in the migration ledger
+   */
+  private async recordPrepareStarted(
     destTables: TableInfo[],
     timestamp: number,
-    _migrationId: string
+    migrationId: string,
+    command: MigrationCommand
   ): Promise<void> {
-    const preparationStartTime = Date.now();
-    this.log('🔄 Starting migration preparation phases...');
+    // Record actual table names (correct case) so a later swap can find their sync triggers
+    const preservedTables = [...this.preservedTables].map(
+      name =>
+        destTables.find(table => table.tableName.toLowerCase() === name.toLowerCase())?.tableName ||
+        name
+    );
+
+    await this.ledger.recordPrepareStarted({
+      migrationId,
+      timestamp,
+      command,
+      sourceHost: this.sourceConfig.host,
+      sourcePort: this.sourceConfig.port,
+      sourceDatabase: this.sourceConfig.database,
+      destDatabase: this.destConfig.database,
+      preservedTables,
+      sourceDumpMode: this.sourceDumpMode,
+    });
+    this.migrationId = migrationId;
+    this.log(`📒 Recorded migration ${migrationId} in ledger`);
+  }
+
+  /**
+   * Mark the current migration as failed in the ledger without masking the original error
+   */
+  private async recordLedgerFailure(error: unknown): Promise<void> {
+    if (!this.migrationId) {
+      return;
+    }
 
     try {
-      // Phase 1: Create source dump
-      const phase1StartTime = Date.now();
-      const dumpPath = await this.createSourceDump(sourceTables, timestamp);
-      const phase1Duration = Date.now() - phase1StartTime;
-      this.log(`✅ Phase 1 completed (${this.formatDuration(phase1Duration)})`);
-
-      // Phase 2: Restore source dump to destination shadow schema
-      const phase2StartTime = Date.now();
-      await this.restoreToDestinationShadow(sourceTables, dumpPath);
-      const phase2Duration = Date.now() - phase2StartTime;
-      this.log(`✅ Phase 2 completed (${this.formatDuration(phase2Duration)})`);
+      if (this.swapRecovery === 'abandoned') {
+        // The swap never started, so the migration is still prepared
+        await this.ledger.updateStatus(this.migrationId, 'prepared', {
+          error: describeError(error),
+        });
+        return;
+      }
 
-      // Phase 3: Setup preserved table synchronization
-      const phase3StartTime = Date.now();
-      await this.setupPreservedTableSync(destTables, timestamp);
-      const phase3Duration = Date.now() - phase3StartTime;
-      this.log(`✅ Phase 3 completed (${this.formatDuration(phase3Duration)})`);
+      await this.ledger.updateStatus(this.migrationId, 'failed', {
+        error: describeError(error),
+      });
+    } catch (ledgerError) {
+      this.logError('Warning: Could not record failure in migration ledger', ledgerError);
+    }
+  }
 
-      const totalPreparationDuration = Date.now() - preparationStartTime;
-      this.log('✅ Preparation phases completed successfully');
-      this.log(`📦 Shadow schema ready for swap`);
-      this.log(`⏱️ Total preparation time: ${this.formatDuration(totalPreparationDuration)}`);
-      this.log('💡 Run the swap command when ready to complete migration');
-    } catch (error) {
+  /**
+   * Record a durable checkpoint for the current migration
+   */
+  private async recordCheckpoint(
+    checkpoint: string,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    if (!this.migrationId) {
+      return;
+    }
+
+    await this.ledger.recordCheckpoint(this.migrationId, checkpoint, details);
+    this.checkpoints.set(checkpoint, details);
+  }
+
+  /**
+   * Rebuild sync trigger descriptors for triggers created by an earlier prepare process
+   */
+  private restoreActiveSyncTriggers(preservedTables: string[]): void {
+    if (this.activeSyncTriggers.length > 0) {
+      return;
+    }
+
+    this.activeSyncTriggers = preservedTables.map(tableName => ({
+      ...this.getSyncTriggerNames(tableName),
+      tableName,
+      isActive: true,
+    }));
+  }
+
+  /**
+   * Perform preparation phases (1-3)
+   * Phases already recorded as checkpoints for this migration are skipped
+   */
+  private async doPreparation(
+    sourceTables: TableInfo[],
+    destTables: TableInfo[],
+    timestamp: number,
+    migrationId: string,
+    command: MigrationCommand
+  ): Promise<void> {
+    const preparationStartTime = Date.now();
+    this.log('🔄 Starting migration preparation phases...');
+
+    await this.recordPrepareStarted(destTables, timestamp, migrationId, command);
+    await this.notifyWebhooks('prepare.started', {
+      migrationId,
+      success: true,
+      data: {
+        timestamp,
+        preservedTables: [...this.preservedTables],
+        resumed: this.checkpoints.size > 0,
+      },
+    });
+
+    try {
+      if (!this.checkpoints.has('phase_2')) {
+        this.tableSizes = await this.getSourceTableSizes(sourceTables);
+      }
+
+      if (this.checkpoints.has('phase_2')) {
+        this.skipPhase('Phases 1-2 already completed - reusing restored shadow schema', 1, 2);
+      } else if (this.streamDump && !this.getReusableDumpPath()) {
+        // Phases 1-2: Stream the source dump straight into the destination shadow schema
+        const streamStartTime = this.startPhase(1);
+        this.startPhase(2);
+        await withSpan(
+          'Phases 1-2: Stream source dump to shadow schema',
+          { 'migration.phase': [1, 2] },
+          async () => {
+            await this.streamSourceToDestinationShadow(sourceTables, timestamp);
+            await this.recordCheckpoint('phase_1', {
+              streamed: true,
+              sourceDumpMode: this.sourceDumpMode,
+              snapshotLsn: this.snapshotLsn,
+            });
+            await this.ledger.stampShadowSchema(migrationId);
+            await this.recordCheckpoint('phase_2');
+          }
+        );
+        const streamDuration = Date.now() - streamStartTime;
+        this.log(`✅ Phases 1-2 completed (${this.formatDuration(streamDuration)})`);
+        this.currentPhase = undefined;
+        for (const phase of [1, 2]) {
+          this.emitEvent('phaseCompleted', {
+            phase,
+            name: PHASE_NAMES[phase],
+            durationMs: streamDuration,
+          });
+        }
+      } else {
+        // Phase 1: Create source dump (reusing the dump of an interrupted run if still on disk)
+        let dumpPath = this.getReusableDumpPath();
+        if (dumpPath) {
+          this.skipPhase(`Phase 1 already completed - reusing dump file ${dumpPath}`, 1);
+        } else if (this.fromDump) {
+          this.skipPhase(`Phase 1 skipped - restoring existing dump ${this.fromDump}`, 1);
+          // A downloaded copy is a temporary file; a local dump given by the user is never deleted
+          let dumpObject: StoredDumpObject | undefined;
+          if (isS3Uri(this.fromDump)) {
+            ({ localPath: dumpPath, dumpObject } = await this.downloadDumpObject(
+              this.fromDump,
+              timestamp
+            ));
+          } else {
+            dumpPath = this.fromDump;
+          }
+          this.dumpMetadata = await this.inspectDumpArchive(dumpPath);
+          // A public schema dump has the layout of a snapshot-mode dump and is remapped the same way
+          await this.recordCheckpoint('phase_1', {
+            dumpPath,
+            keepDump: dumpObject ? this.keepDump : true,
+            sourceDumpMode: this.dumpMetadata.schemaName === 'public' ? 'snapshot' : 'move-tables',
+            dumpMetadata: this.dumpMetadata,
+            dumpObject,
+          });
+        } else {
+          dumpPath = await this.runPhase(1, async () => {
+            const sourceDumpPath = await this.createSourceDump(sourceTables, timestamp);
+            const dumpObject = this.uploadDump
+              ? await this.uploadDumpObject(sourceDumpPath, this.uploadDump)
+              : undefined;
+            await this.recordCheckpoint('phase_1', {
+              dumpPath: sourceDumpPath,
+              dumpFormat: this.dumpFormat,
+              keepDump: this.keepDump,
+              sourceDumpMode: this.sourceDumpMode,
+              snapshotLsn: this.snapshotLsn,
+              dumpObject,
+            });
+            return sourceDumpPath;
+          });
+        }
+
+        // Phase 2: Restore source dump to destination shadow schema
+        const restoreDumpPath = dumpPath;
+        await this.runPhase(2, async () => {
+          const sourceDumpMode: SourceDumpMode =
+            this.checkpoints.get('phase_1')?.sourceDumpMode ?? this.sourceDumpMode;
+          const keepDump: boolean = this.checkpoints.get('phase_1')?.keepDump ?? this.keepDump;
+          await this.restoreToDestinationShadow(
+            sourceTables,
+            restoreDumpPath,
+            timestamp,
+            sourceDumpMode,
+            keepDump
+          );
+          await this.ledger.stampShadowSchema(migrationId);
+          await this.recordCheckpoint('phase_2');
+        });
+      }
+
+      // Phase 3: Setup preserved table synchronization
+      if (this.checkpoints.has('phase_3')) {
+        this.skipPhase('Phase 3 already completed - sync triggers in place', 3);
+      } else {
+        await this.runPhase(3, async () => {
+          await this.setupPreservedTableSync(destTables, timestamp);
+          await this.recordCheckpoint('phase_3');
+        });
+      }
+
+      await this.ledger.updateStatus(migrationId, 'prepared');
+
+      const totalPreparationDuration = Date.now() - preparationStartTime;
+      this.log('✅ Preparation phases completed successfully');
+      this.log(`📦 Shadow schema ready for swap`);
+      this.log(`⏱️ Total preparation time: ${this.formatDuration(totalPreparationDuration)}`);
+    } catch (error) {
       // Cleanup any partial preparation state
       try {
         if (this.activeSyncTriggers.length > 0) {
@@ -505,41 +1471,98 @@ export class DatabaseMigrator {
     }
   }
 
+  /**
+   * Get the source snapshot LSN of this run's dump, or of the dump recorded by Phase 1
+   */
+  private getSnapshotLsn(): string | undefined {
+    return this.snapshotLsn ?? this.checkpoints.get('phase_1')?.snapshotLsn;
+  }
+
+  /**
+   * Get the metadata of the existing dump restored by this run or recorded by Phase 1
+   */
+  private getDumpMetadata(): DumpMetadata | undefined {
+    return this.dumpMetadata ?? this.checkpoints.get('phase_1')?.dumpMetadata;
+  }
+
+  /**
+   * Get the dump file recorded by a completed Phase 1 checkpoint, if it still exists
+   */
+  private getReusableDumpPath(): string | null {
+    const dumpPath = this.checkpoints.get('phase_1')?.dumpPath;
+    if (dumpPath && existsSync(dumpPath)) {
+      return dumpPath;
+    }
+    return null;
+  }
+
   /**
    * Perform completion phases (4-7)
+   * Phases, sequence resets and index recreations already recorded as checkpoints are skipped
    */
   private async doCompletion(sourceTables: TableInfo[], timestamp: number): Promise<void> {
     const completionStartTime = Date.now();
     this.log('🔄 Starting migration completion phases...');
+    this.completionStarted = true;
+
+    if (this.migrationId) {
+      await this.ledger.updateStatus(this.migrationId, 'swapping', {
+        backupSchema: `backup_${timestamp}`,
+      });
+    }
 
     try {
       // Phase 4: Perform atomic schema swap (zero downtime!)
-      const phase4StartTime = Date.now();
-      await this.performAtomicSchemaSwap(timestamp);
-      const phase4Duration = Date.now() - phase4StartTime;
-      this.log(`✅ Phase 4 completed (${this.formatDuration(phase4Duration)})`);
+      if (this.checkpoints.has('phase_4')) {
+        this.skipPhase(`Phase 4 already completed - backup_${timestamp} is in place`, 4);
+      } else {
+        await this.runPhase(4, async () => {
+          await this.checkSwapBlockers();
+          await this.performAtomicSchemaSwap(timestamp);
+          await this.recordCheckpoint('phase_4', { backupSchema: `backup_${timestamp}` });
+          if (this.sessionReset) {
+            await this.resetApplicationSessions(`backup_${timestamp}`, this.sessionReset);
+          }
+        });
+      }
 
       // Phase 5: Cleanup sync triggers and validate consistency
-      const phase5StartTime = Date.now();
-      await this.cleanupSyncTriggersAndValidate(timestamp);
-      const phase5Duration = Date.now() - phase5StartTime;
-      this.log(`✅ Phase 5 completed (${this.formatDuration(phase5Duration)})`);
+      if (this.checkpoints.has('phase_5')) {
+        this.skipPhase('Phase 5 already completed - sync triggers removed', 5);
+      } else {
+        await this.runPhase(5, async () => {
+          await this.cleanupSyncTriggersAndValidate(timestamp);
+          await this.recordCheckpoint('phase_5');
+        });
+      }
 
       // Phase 6: Reset sequences and recreate indexes
-      const phase6StartTime = Date.now();
-      this.log('🔢 Phase 6: Resetting sequences...');
-      await this.resetSequences(sourceTables);
-      const phase6Duration = Date.now() - phase6StartTime;
-      this.log(`✅ Phase 6 completed (${this.formatDuration(phase6Duration)})`);
-
-      const phase7StartTime = Date.now();
-      this.log('🗂️  Phase 7: Recreating indexes...');
-      await this.recreateIndexes(sourceTables);
-      const phase7Duration = Date.now() - phase7StartTime;
-      this.log(`✅ Phase 7 completed (${this.formatDuration(phase7Duration)})`);
+      if (this.checkpoints.has('phase_6')) {
+        this.skipPhase('Phase 6 already completed - sequences reset', 6);
+      } else {
+        await this.runPhase(6, async () => {
+          this.log('🔢 Phase 6: Resetting sequences...');
+          await this.resetSequences(sourceTables);
+          await this.recordCheckpoint('phase_6');
+        });
+      }
+
+      if (this.checkpoints.has('phase_7')) {
+        this.skipPhase('Phase 7 already completed - indexes recreated', 7);
+      } else {
+        await this.runPhase(7, async () => {
+          this.log('🗂️  Phase 7: Recreating indexes...');
+          await this.recreateIndexes(sourceTables);
+          await this.recordCheckpoint('phase_7');
+        });
+      }
 
       // Write protection was already disabled after schema swap in Phase 4
 
+      if (this.migrationId) {
+        await this.ledger.updateStatus(this.migrationId, 'completed');
+      }
+
       const totalCompletionDuration = Date.now() - completionStartTime;
       this.log('✅ Zero-downtime migration finished successfully');
       this.log(`📦 Original schema preserved in backup_${timestamp} schema`);
@@ -548,6 +1571,17 @@ export class DatabaseMigrator {
     } catch (error) {
       this.logError('Migration completion failed', error);
 
+      if (this.swapRecovery === 'abandoned') {
+        // Nothing was renamed: keep the shadow schema and sync triggers so the swap can be retried
+        try {
+          await this.disableDestinationWriteProtection();
+        } catch (cleanupError) {
+          this.logError('Warning: Could not disable destination write protection', cleanupError);
+        }
+        this.log('💡 The prepared migration is unchanged - run the swap command again later');
+        throw error;
+      }
+
       // Cleanup any active sync triggers before rollback
       try {
         if (this.activeSyncTriggers.length > 0) {
@@ -569,9 +1603,11 @@ export class DatabaseMigrator {
       try {
         await this.rollbackSchemaSwap(timestamp);
         this.log('✅ Rollback completed - original schema restored');
+        this.swapRecovery = 'rolled_back';
       } catch (rollbackError) {
         this.logError('Rollback failed', rollbackError);
         this.log('⚠️  Manual intervention required - check backup schema');
+        this.swapRecovery = 'manual_intervention';
       }
       throw error;
     }
@@ -674,7 +1710,7 @@ export class DatabaseMigrator {
       await this.sourcePool.query("SELECT has_schema_privilege(current_user, 'public', 'CREATE')");
       this.log('✅ Source schema permissions verified (CREATE in public schema)');
     } catch (error) {
-      this.stats.warnings.push(`Could not verify all source permissions: ${error}`);
+      this.warn(`Could not verify all source permissions: ${error}`);
     }
   }
 
@@ -694,7 +1730,7 @@ export class DatabaseMigrator {
       await this.destPool.query("SELECT has_schema_privilege(current_user, 'public', 'CREATE')");
       this.log('✅ Destination schema permissions verified (CREATE in public schema)');
     } catch (error) {
-      this.stats.warnings.push(`Could not verify all destination permissions: ${error}`);
+      this.warn(`Could not verify all destination permissions: ${error}`);
     }
   }
 
@@ -717,14 +1753,14 @@ export class DatabaseMigrator {
         this.log(
           '⚠️  PostgreSQL versions differ by one major version - migration should work but test thoroughly'
         );
-        this.stats.warnings.push(
+        this.warn(
           `Version difference: source=${sourceMajor}.${sourceMinor}, dest=${destMajor}.${destMinor}`
         );
       } else {
         this.log(
           '⚠️  PostgreSQL versions differ significantly - migration may have compatibility issues'
         );
-        this.stats.warnings.push(
+        this.warn(
           `Significant version difference: source=${sourceMajor}.${sourceMinor}, dest=${destMajor}.${destMinor}`
         );
       }
@@ -744,7 +1780,7 @@ export class DatabaseMigrator {
         await this.destPool.query(`CREATE EXTENSION IF NOT EXISTS "${extension}"`);
         this.log(`✅ Extension ${extension} is available`);
       } catch (error) {
-        this.stats.warnings.push(`Could not enable extension ${extension}: ${error}`);
+        this.warn(`Could not enable extension ${extension}: ${error}`);
       }
     }
   }
@@ -759,7 +1795,7 @@ export class DatabaseMigrator {
       `);
       this.log(`📊 Source database size: ${result.rows[0].size}`);
     } catch (error) {
-      this.stats.warnings.push(`Could not determine database size: ${error}`);
+      this.warn(`Could not determine database size: ${error}`);
     }
   }
 
@@ -800,14 +1836,14 @@ export class DatabaseMigrator {
     const sourceLongestRunning = parseFloat(sourceTransactions.rows[0].longest_running || '0');
 
     if (sourceActiveCount > 10) {
-      this.stats.warnings.push(
+      this.warn(
         `Source: High number of active transactions (${sourceActiveCount}) - consider migrating during low activity`
       );
     }
 
     if (sourceLongestRunning > 300) {
       // 5 minutes
-      this.stats.warnings.push(
+      this.warn(
         `Source: Long-running transaction detected (${Math.round(sourceLongestRunning)}s) - consider waiting for completion`
       );
     }
@@ -827,14 +1863,14 @@ export class DatabaseMigrator {
     const destLongestRunning = parseFloat(destTransactions.rows[0].longest_running || '0');
 
     if (destActiveCount > 10) {
-      this.stats.warnings.push(
+      this.warn(
         `Destination: High number of active transactions (${destActiveCount}) - consider migrating during low activity`
       );
     }
 
     if (destLongestRunning > 300) {
       // 5 minutes
-      this.stats.warnings.push(
+      this.warn(
         `Destination: Long-running transaction detected (${Math.round(destLongestRunning)}s) - consider waiting for completion`
       );
     }
@@ -900,7 +1936,7 @@ export class DatabaseMigrator {
 
       const publicTableCount = parseInt(publicTablesCheck.rows[0].table_count);
       if (publicTableCount === 0) {
-        this.stats.warnings.push('Post-swap: Public schema appears to be empty');
+        this.warn('Post-swap: Public schema appears to be empty');
         this.log('⚠️  Post-swap: Public schema appears to be empty');
       }
 
@@ -924,7 +1960,7 @@ export class DatabaseMigrator {
       );
 
       if (schemaOwnerCheck.rows.length < 3) {
-        this.stats.warnings.push('Post-swap: Some schemas may have ownership issues');
+        this.warn('Post-swap: Some schemas may have ownership issues');
         this.log('⚠️  Post-swap: Some schemas may have ownership issues');
       }
 
@@ -1099,14 +2135,14 @@ export class DatabaseMigrator {
       indexType: row.index_type,
     }));
 
-    // Get sequences
+    // Get sequences, of serial and identity columns alike
     const sequencesQuery = `
       SELECT 
         pg_get_serial_sequence($1, column_name) as sequence_name,
         column_name
       FROM information_schema.columns
       WHERE table_schema = $2 AND table_name = $3
-        AND column_default LIKE 'nextval%'
+        AND (column_default LIKE 'nextval%' OR is_identity = 'YES')
     `;
 
     const sequencesResult = await pool.query(sequencesQuery, [
@@ -1166,6 +2202,49 @@ export class DatabaseMigrator {
     this.log(`   Source tables to migrate: ${sourceTables.length}`);
     this.log(`   Destination tables to backup: ${destTables.length}`);
     this.log(`   Preserved tables: ${this.preservedTables.size}`);
+    if (this.fromDump && isS3Uri(this.fromDump)) {
+      // The archive is only validated once it has been downloaded
+      const objectSize = await this.getDumpStorage().getDumpSize(this.fromDump);
+      if (objectSize === null) {
+        throw new Error(`Dump object not found: ${this.fromDump}`);
+      }
+      this.log(`   Existing dump: ${this.fromDump} (${this.formatBytes(objectSize)} to download)`);
+    } else if (this.fromDump) {
+      this.dumpMetadata = await this.inspectDumpArchive(this.fromDump);
+      this.log(
+        `   Existing dump: ${this.fromDump} (${this.dumpMetadata.format}, ${this.dumpMetadata.tableCount} tables from ${this.dumpMetadata.sourceDatabase}, dumped ${this.dumpMetadata.dumpedAt})`
+      );
+    } else {
+      this.log(`   Source dump mode: ${this.sourceDumpMode}`);
+      this.log(
+        `   Source writes during the dump: ${this.blockSourceWrites ? 'blocked' : 'allowed'}`
+      );
+    }
+    if (this.uploadDump) {
+      this.log(`   Upload dump to: ${this.uploadDump}`);
+    }
+    this.log(`   Streamed dump: ${this.streamDump ? 'yes (no dump file)' : 'no'}`);
+    if (this.streamDump) {
+      this.log(`   Parallelism: none (streamed archives are dumped and restored sequentially)`);
+    } else {
+      let dumpParallelism: string;
+      if (this.fromDump) {
+        dumpParallelism = 'none (existing dump is restored)';
+      } else {
+        this.log(`   Dump format: ${this.dumpFormat}`);
+        dumpParallelism =
+          this.dumpFormat === 'directory'
+            ? `${await this.resolveJobCount(this.sourcePool, this.sourceConfig, this.dumpJobs, 1)} jobs`
+            : '1 job (custom-format dumps are single-threaded)';
+      }
+      const restoreJobCount = await this.resolveJobCount(
+        this.destPool,
+        this.destConfig,
+        this.restoreJobs
+      );
+      this.log(`   Dump parallelism: ${dumpParallelism}`);
+      this.log(`   Restore parallelism: ${restoreJobCount} jobs`);
+    }
 
     // Analyze source tables with real data
     this.log(`\n📋 Source Database Analysis:`);
@@ -1231,14 +2310,14 @@ export class DatabaseMigrator {
       this.log(`\n🔒 Preserved Tables Analysis:`);
       const preservedTablesFound = [];
       for (const preservedTableName of this.preservedTables) {
-        const sourceHasTable = sourceTables.some(
+        const sourceTable = sourceTables.find(
           t => t.tableName.toLowerCase() === preservedTableName.toLowerCase()
         );
         const destTable = destTables.find(
           t => t.tableName.toLowerCase() === preservedTableName.toLowerCase()
         );
 
-        if (sourceHasTable && destTable) {
+        if (sourceTable && destTable) {
           preservedTablesFound.push(preservedTableName);
           try {
             const countResult = await this.destPool.query(
@@ -1251,7 +2330,36 @@ export class DatabaseMigrator {
           } catch (error) {
             this.log(`   🔄 ${preservedTableName}: ⚠️ Could not count records (${error})`);
           }
-        } else if (!sourceHasTable) {
+
+          // The source table is what the shadow table will be restored as
+          try {
+            const shadowColumns = await readColumnDefinitions(
+              this.sourcePool,
+              'public',
+              sourceTable.tableName
+            );
+            const plan = resolveColumnMapping(
+              destTable.tableName,
+              await readColumnDefinitions(this.destPool, 'public', destTable.tableName),
+              shadowColumns,
+              this.columnMappings.get(destTable.tableName.toLowerCase())
+            );
+            this.log(`      🧭 Column mapping (shadow ← public):`);
+            for (const line of describeColumnMapping(plan)) {
+              this.log(`         ${line}`);
+            }
+            await this.checkIdentityUniqueKeys(
+              this.sourcePool,
+              'public',
+              sourceTable.tableName,
+              shadowColumns,
+              plan,
+              await this.resolveSyncKey(this.destPool, destTable.tableName)
+            );
+          } catch (error) {
+            this.log(`      ❌ ${error instanceof Error ? error.message : String(error)}`);
+          }
+        } else if (!sourceTable) {
           this.log(`   ❌ ${preservedTableName}: Not found in source database`);
         } else if (!destTable) {
           this.log(`   ❌ ${preservedTableName}: Not found in destination database`);
@@ -1261,11 +2369,42 @@ export class DatabaseMigrator {
 
     // Migration steps preview
     this.log(`\n🔄 Migration Steps (DRY RUN - no changes will be made):`);
-    this.log(`   1. 🔒 Enable write protection on source and destination databases`);
-    this.log(
-      `   2. 📦 Create source dump of ${sourceTables.length} tables (${totalSourceRecords.toLocaleString()} total records)`
-    );
-    this.log(`   3. 🔄 Restore source data to destination shadow schema`);
+    if (this.dumpMetadata) {
+      this.log(`   1. ⏭️  Skip the source dump (source left untouched)`);
+      this.log(
+        `   2. 📦 Restore existing dump ${this.dumpMetadata.path} of ${this.dumpMetadata.tableCount} tables (the file is kept)`
+      );
+    } else if (this.fromDump) {
+      this.log(`   1. ⏭️  Skip the source dump (source left untouched)`);
+      this.log(
+        `   2. ☁️  Download ${this.fromDump}, verify its checksum and validate it with pg_restore --list`
+      );
+    } else {
+      if (this.sourceDumpMode === 'snapshot') {
+        this.log(
+          `   1. 📸 Export a consistent source snapshot (${this.blockSourceWrites ? 'source writes blocked during the dump' : 'source left untouched'})`
+        );
+      } else {
+        this.log(`   1. 📸 Move source tables to a source shadow schema and export a snapshot`);
+      }
+      this.log(
+        `   2. 📦 Create source dump of ${sourceTables.length} tables (${totalSourceRecords.toLocaleString()} total records)${this.streamDump ? ', streamed straight into pg_restore (no dump file)' : ''}${this.uploadDump ? `, uploaded to ${this.uploadDump}` : ''}${this.keepDump ? ', kept after the restore' : ''}`
+      );
+    }
+    const remapDump = this.dumpMetadata
+      ? this.dumpMetadata.schemaName === 'public'
+      : this.sourceDumpMode === 'snapshot';
+    if (this.fromDump && !this.dumpMetadata) {
+      this.log(
+        `   3. 🔄 Restore source data to destination shadow schema (remapped via staging database migration_staging_${timestamp} if the dump holds the public schema)`
+      );
+    } else if (remapDump) {
+      this.log(
+        `   3. 🔄 Restore source data to destination shadow schema (remapped via staging database migration_staging_${timestamp})`
+      );
+    } else {
+      this.log(`   3. 🔄 Restore source data to destination shadow schema`);
+    }
     if (this.preservedTables.size > 0) {
       this.log(`   4. 🔄 Setup real-time sync for ${this.preservedTables.size} preserved tables`);
     } else {
@@ -1340,97 +2479,142 @@ export class DatabaseMigrator {
     this.log('🔄 Starting database migration...');
 
     const timestamp = Date.now();
+    const migrationId = this.buildMigrationId(timestamp);
 
-    try {
-      // Phase 1: Create source dump
-      const dumpPath = await this.createSourceDump(sourceTables, timestamp);
-
-      // Phase 2: Restore source dump to destination shadow schema
-      await this.restoreToDestinationShadow(sourceTables, dumpPath);
+    // Phases 1-3: Dump, restore to shadow schema and set up preserved table sync
+    await this.doPreparation(sourceTables, destTables, timestamp, migrationId, 'start');
 
-      // Phase 3: Setup preserved table synchronization
-      await this.setupPreservedTableSync(destTables, timestamp);
+    // Phases 4-7: Swap schemas, clean up sync triggers, reset sequences and recreate indexes
+    await this.doCompletion(sourceTables, timestamp);
 
-      // Phase 4: Perform atomic schema swap (zero downtime!)
-      await this.performAtomicSchemaSwap(timestamp);
+    // Disable destination write protection after all critical phases complete
+    await this.disableDestinationWriteProtection();
+  }
 
-      // Phase 5: Cleanup sync triggers and validate consistency
-      await this.cleanupSyncTriggersAndValidate(timestamp);
+  /**
+   * Phase 1: Create source dump from source database
+   */
+  private async createSourceDump(sourceTables: TableInfo[], timestamp: number): Promise<string> {
+    const dumpPath = this.getDumpPath('source_dump', timestamp);
 
-      // Phase 6: Reset sequences and recreate indexes
-      this.log('🔢 Phase 6: Resetting sequences...');
-      await this.resetSequences(sourceTables);
+    if (this.sourceDumpMode === 'snapshot') {
+      this.log(
+        `🔧 Phase 1: Creating source dump from an exported snapshot (${this.blockSourceWrites ? 'source writes blocked' : 'source left untouched'})...`
+      );
+      await this.withExportedSnapshot(snapshotId =>
+        this.createBinaryDump(dumpPath, { schemaName: 'public', snapshotId })
+      );
+      this.log('✅ Source dump created successfully');
+      return dumpPath;
+    }
 
-      this.log('🗂️  Phase 7: Recreating indexes...');
-      await this.recreateIndexes(sourceTables);
+    this.log('🔧 Phase 1: Creating source dump...');
 
-      // Disable destination write protection after all critical phases complete
-      await this.disableDestinationWriteProtection();
+    try {
+      // Prepare source database by moving tables to shadow schema
+      await this.prepareSourceForShadowDump(sourceTables);
+      await this.withExportedSnapshot(snapshotId =>
+        this.createBinaryDump(dumpPath, { snapshotId })
+      );
+    } finally {
+      // Restore source database tables back to public schema, even if the dump fails
+      await this.restoreSourceFromShadowDump(sourceTables);
+    }
 
-      this.log('✅ Zero-downtime migration finished successfully');
-      this.log(`📦 Original schema preserved in backup_${timestamp} schema`);
-      this.log('💡 Call cleanupBackupSchema(timestamp) to remove backup after verification');
-    } catch (error) {
-      this.logError('Migration failed', error);
+    this.log('✅ Source dump created successfully');
+    return dumpPath;
+  }
 
-      // Cleanup any active sync triggers before rollback
-      try {
-        if (this.activeSyncTriggers.length > 0) {
-          this.log('🧹 Cleaning up active sync triggers before rollback...');
-          await this.cleanupRealtimeSync(this.activeSyncTriggers);
-        }
-      } catch (cleanupError) {
-        this.logError('Warning: Could not cleanup sync triggers', cleanupError);
-      }
+  /**
+   * Phases 1-2 (streaming): Pipe the source dump straight into the destination shadow schema
+   * No dump file is written, so local disk space does not limit the size of the migration
+   */
+  private async streamSourceToDestinationShadow(
+    sourceTables: TableInfo[],
+    timestamp: number
+  ): Promise<void> {
+    this.log(
+      '🔧 Phases 1-2: Streaming source dump into destination shadow schema (no dump file)...'
+    );
 
-      // Ensure destination write protection is disabled on error
-      try {
-        await this.disableDestinationWriteProtection();
-      } catch (cleanupError) {
-        this.logError('Warning: Could not disable destination write protection', cleanupError);
-      }
+    await this.resetDestinationShadowSchema();
 
-      this.log('🔄 Attempting automatic rollback via schema swap...');
+    if (this.sourceDumpMode === 'snapshot') {
+      // Both hops of the public → shadow remap are streamed through the staging database
+      await this.withStagingDatabase(timestamp, async (stagingConfig, stagingPool) => {
+        await this.withExportedSnapshot(snapshotId =>
+          this.streamDumpToRestore(
+            { config: this.sourceConfig, schemaName: 'public', snapshotId },
+            { config: stagingConfig, pool: stagingPool, schemaName: 'public' }
+          )
+        );
+        await this.moveStagingTablesToShadow(stagingPool, sourceTables);
+        this.stats.bytesTransferred = await this.streamDumpToRestore(
+          { config: stagingConfig, schemaName: 'shadow' },
+          { config: this.destConfig, pool: this.destPool }
+        );
+      });
+    } else {
+      // Source tables stay in the source shadow schema until the restore has finished
       try {
-        await this.rollbackSchemaSwap(timestamp);
-        this.log('✅ Rollback completed - original schema restored');
-      } catch (rollbackError) {
-        this.logError('Rollback failed', rollbackError);
-        this.log('⚠️  Manual intervention required - check backup schema');
+        await this.prepareSourceForShadowDump(sourceTables);
+        this.stats.bytesTransferred = await this.withExportedSnapshot(snapshotId =>
+          this.streamDumpToRestore(
+            { config: this.sourceConfig, schemaName: 'shadow', snapshotId },
+            { config: this.destConfig, pool: this.destPool }
+          )
+        );
+      } finally {
+        // A failed pg_dump or pg_restore must not leave the source tables out of public
+        await this.restoreSourceFromShadowDump(sourceTables);
       }
-      throw error;
     }
+
+    // Update statistics
+    this.stats.tablesProcessed = sourceTables.length;
+    await this.updateRecordsMigratedCount(sourceTables);
+
+    this.log('✅ Destination shadow schema restore completed');
   }
 
   /**
-   * Phase 1: Create source dump from source database
+   * Run a dump inside a source transaction whose snapshot is exported to pg_dump, recording
+   * the snapshot's WAL position. The source is only read, so this also works against a
+   * read-only hot standby.
    */
-  private async createSourceDump(sourceTables: TableInfo[], timestamp: number): Promise<string> {
-    this.log('🔧 Phase 1: Creating source dump...');
-
+  private async withExportedSnapshot<T>(dump: (snapshotId: string) => Promise<T>): Promise<T> {
+    // The exporting transaction must stay open until pg_dump has imported the snapshot
+    const snapshotClient = await this.sourcePool.connect();
     try {
-      // Prepare source database by moving tables to shadow schema
-      await this.prepareSourceForShadowDump(sourceTables);
-
-      // Enable write protection on source database for safety during dump/restore process
-      await this.enableWriteProtection();
-
-      // Create binary dump for maximum efficiency and parallelization
-      const dumpPath = join(this.tempDir, `source_dump_${timestamp}.backup`);
-      await this.createBinaryDump(dumpPath);
-
-      // Disable write protection before restoring source database structure
-      await this.disableWriteProtection();
-
-      // Restore source database tables back to public schema
-      await this.restoreSourceFromShadowDump(sourceTables);
+      await snapshotClient.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      const snapshotResult = await snapshotClient.query(`
+        SELECT
+          pg_export_snapshot() AS snapshot_id,
+          CASE WHEN pg_is_in_recovery() THEN pg_last_wal_replay_lsn() ELSE pg_current_wal_lsn() END AS snapshot_lsn
+      `);
+      const snapshotId = snapshotResult.rows[0].snapshot_id;
+      this.snapshotLsn = snapshotResult.rows[0].snapshot_lsn;
+      this.log(`📸 Exported source snapshot: ${snapshotId} (LSN ${this.snapshotLsn})`);
 
-      this.log('✅ Source dump created successfully');
-      return dumpPath;
+      try {
+        // Created after the export, so the dump does not see the write-block triggers
+        if (this.blockSourceWrites) {
+          await this.enableWriteProtection();
+        }
+        const result = await dump(snapshotId);
+        await snapshotClient.query('COMMIT');
+        return result;
+      } finally {
+        // Always remove write protection from source database, even if migration fails
+        if (this.blockSourceWrites) {
+          await this.disableWriteProtection();
+        }
+      }
     } catch (error) {
-      // Always remove write protection from source database, even if migration fails
-      await this.disableWriteProtection();
+      await snapshotClient.query('ROLLBACK');
       throw error;
+    } finally {
+      snapshotClient.release();
     }
   }
 
@@ -1439,126 +2623,821 @@ export class DatabaseMigrator {
    */
   private async restoreToDestinationShadow(
     sourceTables: TableInfo[],
-    dumpPath: string
+    dumpPath: string,
+    timestamp: number,
+    sourceDumpMode: SourceDumpMode,
+    keepDump: boolean
   ): Promise<void> {
     this.log('🔧 Phase 2: Restoring source data to destination shadow schema...');
 
-    const client = await this.destPool.connect();
+    // A snapshot dump holds the source public schema and must be remapped to shadow first
+    const shadowDumpPath =
+      sourceDumpMode === 'snapshot'
+        ? await this.remapPublicDumpToShadow(sourceTables, dumpPath, timestamp)
+        : dumpPath;
 
-    try {
-      // No write protection on destination during prepare phase
-      // This allows production traffic to continue normally and preserved table sync to work
-
-      // Disable foreign key constraints for the destination database during setup
-      await this.disableForeignKeyConstraints(this.destPool);
-
-      // Drop and recreate shadow schema on destination before restore
-      this.log('⚠️  Dropping existing shadow schema on destination (if exists)');
-      await client.query('DROP SCHEMA IF EXISTS shadow CASCADE;');
-      this.log('✅ Shadow schema dropped - will be recreated by pg_restore');
-
-      // Restore shadow schema data with full parallelization
-      const jobCount = Math.min(8, cpus().length);
-      const restoreStartTime = Date.now();
-      this.log(`🚀 Restoring with ${jobCount} parallel jobs...`);
-
-      const restoreArgs = [
-        '--jobs',
-        jobCount.toString(),
-        '--format',
-        'custom',
-        '--no-privileges',
-        '--no-owner',
-        '--disable-triggers',
-        '--dbname',
-        this.destConfig.database,
-        '--host',
-        this.destConfig.host,
-        '--port',
-        this.destConfig.port.toString(),
-        '--username',
-        this.destConfig.user,
-        dumpPath,
-      ];
-
-      const restoreEnv = {
-        ...process.env,
-        PGPASSWORD: this.destConfig.password,
-      };
+    await this.resetDestinationShadowSchema();
 
-      try {
-        await execa('pg_restore', restoreArgs, { env: restoreEnv });
-        const restoreDuration = Date.now() - restoreStartTime;
-        this.log(
-          `✅ Source data restored to shadow schema with parallelization (${this.formatDuration(restoreDuration)})`
-        );
-      } catch (error) {
-        const restoreDuration = Date.now() - restoreStartTime;
-        this.logError(
-          `Restore failed after ${this.formatDuration(restoreDuration)}`,
-          error as Error
-        );
-        throw error;
-      }
+    // Restore shadow schema data with full parallelization
+    await this.restoreBinaryDump(shadowDumpPath, this.destConfig, this.destPool);
+    this.stats.bytesTransferred = this.getDumpSize(shadowDumpPath);
 
-      // Clean up dump file
-      if (existsSync(dumpPath)) {
-        unlinkSync(dumpPath);
-      }
+    // Clean up dump files (directory-format dumps are removed with their contents)
+    if (shadowDumpPath !== dumpPath) {
+      rmSync(shadowDumpPath, { recursive: true, force: true });
+    }
+    if (keepDump) {
+      this.log(`💾 Keeping dump file for reuse: ${dumpPath}`);
+    } else {
+      rmSync(dumpPath, { recursive: true, force: true });
+    }
 
-      // Update statistics
-      this.stats.tablesProcessed = sourceTables.length;
-      await this.updateRecordsMigratedCount(sourceTables);
+    // Update statistics
+    this.stats.tablesProcessed = sourceTables.length;
+    await this.updateRecordsMigratedCount(sourceTables);
 
-      this.log('✅ Destination shadow schema restore completed');
-    } finally {
-      client.release();
+    this.log('✅ Destination shadow schema restore completed');
+  }
+
+  /**
+   * Drop the destination shadow schema so pg_restore can recreate it
+   */
+  private async resetDestinationShadowSchema(): Promise<void> {
+    // No write protection on destination during prepare phase
+    // This allows production traffic to continue normally and preserved table sync to work
+
+    // Disable foreign key constraints for the destination database during setup
+    await this.disableForeignKeyConstraints(this.destPool);
+
+    // Drop and recreate shadow schema on destination before restore
+    this.log('⚠️  Dropping existing shadow schema on destination (if exists)');
+    await this.destPool.query('DROP SCHEMA IF EXISTS shadow CASCADE;');
+    this.log('✅ Shadow schema dropped - will be recreated by pg_restore');
+  }
+
+  /**
+   * Get the object storage client, creating it on first use
+   */
+  private getDumpStorage(): DumpStorage {
+    if (!this.dumpStorage) {
+      this.dumpStorage = new DumpStorage(this.objectStorage);
     }
+    return this.dumpStorage;
   }
 
   /**
-   * Create binary dump of source database
+   * Upload a dump to object storage; the key and checksum are logged and recorded in the
+   * Phase 1 checkpoint
    */
-  private async createBinaryDump(dumpPath: string): Promise<void> {
+  private async uploadDumpObject(dumpPath: string, uri: string): Promise<StoredDumpObject> {
     const startTime = Date.now();
-    this.log('📦 Creating binary dump of source database...');
+    this.log(`☁️  Uploading dump to ${uri}...`);
 
-    const dumpArgs = [
-      '--format',
-      'custom',
-      '--no-privileges',
-      '--no-owner',
-      '--disable-triggers',
+    const dumpObject = await this.getDumpStorage().uploadDump(dumpPath, uri);
+
+    const duration = Date.now() - startTime;
+    this.log(
+      `✅ Uploaded ${this.formatBytes(dumpObject.sizeBytes)} to ${uri} (${this.formatDuration(duration)}, sha256 ${dumpObject.sha256})`
+    );
+    return dumpObject;
+  }
+
+  /**
+   * Download a dump from object storage into the temp directory, verifying its checksum
+   */
+  private async downloadDumpObject(
+    uri: string,
+    timestamp: number
+  ): Promise<{ localPath: string; dumpObject: StoredDumpObject }> {
+    const startTime = Date.now();
+    this.log(`☁️  Downloading dump from ${uri}...`);
+
+    const { localPath, object, checksumVerified } = await this.getDumpStorage().downloadDump(
+      uri,
+      join(this.tempDir, `downloaded_dump_${timestamp}`)
+    );
+
+    const duration = Date.now() - startTime;
+    this.log(
+      `✅ Downloaded ${this.formatBytes(object.sizeBytes)} to ${localPath} (${this.formatDuration(duration)}, sha256 ${object.sha256})`
+    );
+    if (!checksumVerified) {
+      const warning = `Dump object ${uri} has no .sha256 checksum object, so the download was not verified`;
+      this.log(`⚠️  ${warning}`);
+      this.warn(warning);
+    }
+    return { localPath, dumpObject: object };
+  }
+
+  /**
+   * Validate a dump archive with `pg_restore --list` and read its metadata
+   * The archive must hold tables in exactly one of the public or shadow schemas
+   */
+  private async inspectDumpArchive(dumpPath: string): Promise<DumpMetadata> {
+    if (!existsSync(dumpPath)) {
+      throw new Error(`Dump file not found: ${dumpPath}`);
+    }
+
+    this.log(`🔍 Validating dump archive ${dumpPath}...`);
+    let listing: string;
+    try {
+      const result = await execa('pg_restore', ['--list', dumpPath]);
+      listing = result.stdout;
+    } catch (error) {
+      throw new Error(
+        `Invalid dump archive ${dumpPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const headerValue = (pattern: RegExp): string =>
+      listing.match(pattern)?.[1].trim() || 'unknown';
+
+    // Table entries look like "215; 1259 16386 TABLE public User postgres"
+    const tableSchemas = new Set<string>();
+    let tableCount = 0;
+    for (const match of listing.matchAll(/^\d+; \d+ \d+ TABLE (?!DATA )(\S+) /gm)) {
+      tableSchemas.add(match[1]);
+      tableCount++;
+    }
+
+    const schemaNames = [...tableSchemas];
+    if (schemaNames.length !== 1 || (schemaNames[0] !== 'public' && schemaNames[0] !== 'shadow')) {
+      throw new Error(
+        `Dump archive ${dumpPath} must contain tables in exactly one of the public or shadow schemas (found: ${schemaNames.join(', ') || 'no tables'})`
+      );
+    }
+
+    const metadata: DumpMetadata = {
+      path: dumpPath,
+      format: headerValue(/^;\s+Format: (.+)$/m),
+      sourceDatabase: headerValue(/^;\s+dbname: (.+)$/m),
+      dumpedAt: headerValue(/^; Archive created at (.+)$/m),
+      serverVersion: headerValue(/^;\s+Dumped from database version: (.+)$/m),
+      pgDumpVersion: headerValue(/^;\s+Dumped by pg_dump version: (.+)$/m),
+      schemaName: schemaNames[0],
+      tableCount,
+    };
+
+    this.log(
+      `✅ Dump archive is valid: ${metadata.tableCount} tables in ${metadata.schemaName} schema from ${metadata.sourceDatabase} (PostgreSQL ${metadata.serverVersion}, dumped ${metadata.dumpedAt})`
+    );
+    if (metadata.sourceDatabase !== this.sourceConfig.database) {
+      const warning = `Dump was taken from database ${metadata.sourceDatabase}, but the source is ${this.sourceConfig.database}`;
+      this.log(`⚠️  ${warning}`);
+      this.warn(warning);
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Size of a dump file, or of the files in a directory-format dump
+   */
+  private getDumpSize(dumpPath: string): number {
+    const stats = statSync(dumpPath);
+    if (!stats.isDirectory()) {
+      return stats.size;
+    }
+    return readdirSync(dumpPath).reduce(
+      (total, fileName) => total + statSync(join(dumpPath, fileName)).size,
+      0
+    );
+  }
+
+  /**
+   * Get the path of a dump file (or directory, for directory-format dumps) in the temp directory
+   */
+  private getDumpPath(name: string, timestamp: number): string {
+    const fileName =
+      this.dumpFormat === 'directory' ? `${name}_${timestamp}` : `${name}_${timestamp}.backup`;
+    return join(this.tempDir, fileName);
+  }
+
+  /**
+   * Build pg_dump arguments for a dump of one schema, written to stdout unless a custom-format
+   * `--file` or directory-format output path is added
+   */
+  private buildDumpArgs(dump: DumpSource, format: DumpFormat = 'custom'): string[] {
+    const dumpArgs = [
+      '--format',
+      format,
+      '--no-privileges',
+      '--no-owner',
+      '--disable-triggers',
       '--verbose',
       '--schema',
-      'shadow',
-      '--file',
-      dumpPath,
+      dump.schemaName,
       '--host',
-      this.sourceConfig.host,
+      dump.config.host,
       '--port',
-      this.sourceConfig.port.toString(),
+      dump.config.port.toString(),
       '--username',
-      this.sourceConfig.user,
+      dump.config.user,
+      '--dbname',
+      dump.config.database,
+    ];
+
+    if (dump.schemaName === 'public') {
+      // Skip the same tables that schema analysis ignores
+      dumpArgs.push(
+        '--exclude-table',
+        'public.spatial_ref_sys',
+        '--exclude-table',
+        'public._prisma_migrations'
+      );
+    }
+
+    if (dump.snapshotId) {
+      dumpArgs.push('--snapshot', dump.snapshotId);
+    }
+
+    return dumpArgs;
+  }
+
+  /**
+   * Build pg_restore arguments for an archive, read from stdin unless a path is appended
+   * @param schemaName Only restore objects in this schema; the schema itself must already exist
+   */
+  private buildRestoreArgs(
+    config: DatabaseConfig,
+    schemaName?: string,
+    format: DumpFormat = 'custom'
+  ): string[] {
+    const restoreArgs = [
+      '--format',
+      format,
+      '--no-privileges',
+      '--no-owner',
+      '--disable-triggers',
+      '--verbose',
       '--dbname',
-      this.sourceConfig.database,
+      config.database,
+      '--host',
+      config.host,
+      '--port',
+      config.port.toString(),
+      '--username',
+      config.user,
     ];
 
-    const dumpEnv = { ...process.env, PGPASSWORD: this.sourceConfig.password };
+    if (schemaName) {
+      restoreArgs.push('--schema', schemaName);
+    }
+
+    return restoreArgs;
+  }
+
+  /**
+   * Create binary dump of one schema (the source shadow schema by default)
+   * Directory-format dumps run parallel pg_dump jobs; custom-format dumps are single-threaded
+   */
+  private async createBinaryDump(
+    dumpPath: string,
+    options: {
+      config?: DatabaseConfig;
+      pool?: Pool;
+      schemaName?: string;
+      snapshotId?: string;
+    } = {}
+  ): Promise<void> {
+    const {
+      config = this.sourceConfig,
+      pool = this.sourcePool,
+      schemaName = 'shadow',
+      snapshotId,
+    } = options;
+    const startTime = Date.now();
+
+    const dumpArgs = [
+      ...this.buildDumpArgs({ config, schemaName, snapshotId }, this.dumpFormat),
+      '--file',
+      dumpPath,
+    ];
+
+    let jobs = 1;
+    if (this.dumpFormat === 'directory') {
+      // The pg_dump leader holds one connection besides its workers
+      const jobCount = await this.resolveJobCount(pool, config, this.dumpJobs, 1);
+      dumpArgs.push('--jobs', jobCount.toString());
+      jobs = jobCount;
+      this.log(
+        `📦 Creating directory-format dump of ${config.database} (${schemaName} schema) with ${jobCount} parallel jobs...`
+      );
+
+      // pg_dump refuses to write into an existing directory
+      rmSync(dumpPath, { recursive: true, force: true });
+    } else {
+      this.log(`📦 Creating binary dump of ${config.database} (${schemaName} schema)...`);
+    }
+    const dumpEnv = { ...process.env, PGPASSWORD: config.password };
+
+    const dumpProcess = execa('pg_dump', dumpArgs, { env: dumpEnv });
+    const tracker = this.trackDumpProgress(dumpProcess.stderr, 'dump', config.database, jobs > 1);
 
     try {
-      await execa('pg_dump', dumpArgs, { env: dumpEnv });
+      await withSpan(
+        'pg_dump',
+        { 'db.name': config.database, 'migration.schema': schemaName, 'migration.jobs': jobs },
+        () => dumpProcess
+      );
+      await this.finishDumpProgress(tracker, true);
       const duration = Date.now() - startTime;
       this.log(
         `✅ Binary dump created successfully (${this.formatDuration(duration)}): ${dumpPath}`
       );
     } catch (error) {
+      await this.finishDumpProgress(tracker, false);
       const duration = Date.now() - startTime;
-      this.logError(`Dump failed after ${this.formatDuration(duration)}`, error as Error);
+      this.logError(
+        `Dump failed after ${this.formatDuration(duration)}`,
+        tracker.errorLines.length > 0 ? tracker.errorLines.join('; ') : error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a binary dump into a database with full parallelization
+   * @param schemaName Only restore objects in this schema; the schema itself must already exist
+   */
+  private async restoreBinaryDump(
+    dumpPath: string,
+    config: DatabaseConfig,
+    pool: Pool,
+    schemaName?: string
+  ): Promise<void> {
+    const jobCount = await this.resolveJobCount(pool, config, this.restoreJobs);
+    const restoreStartTime = Date.now();
+    this.log(`🚀 Restoring into ${config.database} with ${jobCount} parallel jobs...`);
+
+    // The archive format is detected from disk, so a resumed run can restore an earlier dump
+    const format: DumpFormat = statSync(dumpPath).isDirectory() ? 'directory' : 'custom';
+    const restoreArgs = [
+      '--jobs',
+      jobCount.toString(),
+      ...this.buildRestoreArgs(config, schemaName, format),
+      dumpPath,
+    ];
+    const restoreEnv = {
+      ...process.env,
+      PGPASSWORD: config.password,
+    };
+
+    const restoreProcess = execa('pg_restore', restoreArgs, { env: restoreEnv });
+    const tracker = this.trackDumpProgress(
+      restoreProcess.stderr,
+      'restore',
+      config.database,
+      jobCount > 1
+    );
+
+    try {
+      await withSpan(
+        'pg_restore',
+        {
+          'db.name': config.database,
+          'migration.schema': schemaName ?? 'all',
+          'migration.jobs': jobCount,
+        },
+        () => restoreProcess
+      );
+      await this.finishDumpProgress(tracker, true);
+      const restoreDuration = Date.now() - restoreStartTime;
+      this.log(
+        `✅ Dump restored into ${config.database} with parallelization (${this.formatDuration(restoreDuration)})`
+      );
+    } catch (error) {
+      await this.finishDumpProgress(tracker, false);
+      const restoreDuration = Date.now() - restoreStartTime;
+      this.logError(
+        `Restore failed after ${this.formatDuration(restoreDuration)}`,
+        tracker.errorLines.length > 0 ? tracker.errorLines.join('; ') : error
+      );
       throw error;
     }
   }
 
+  /**
+   * Resolve the number of parallel pg_dump/pg_restore jobs to run against a database: the
+   * requested count (min(8, CPUs) by default), capped so the jobs fit in the connections
+   * still free under the server, role and database connection limits
+   * @param extraConnections Connections the command holds besides one per job
+   */
+  private async resolveJobCount(
+    pool: Pool,
+    config: DatabaseConfig,
+    requestedJobs: number | undefined,
+    extraConnections: number = 0
+  ): Promise<number> {
+    const jobCount = requestedJobs ?? Math.min(8, cpus().length);
+    const freeConnections = await this.getFreeConnectionCount(pool);
+    if (freeConnections === null) {
+      return jobCount;
+    }
+
+    const maxJobs = Math.max(1, freeConnections - extraConnections - JOB_CONNECTION_HEADROOM);
+    if (jobCount > maxJobs) {
+      this.log(
+        `⚠️  Capping parallel jobs on ${config.database} at ${maxJobs} (requested ${jobCount}, ${freeConnections} connections free)`
+      );
+      return maxJobs;
+    }
+    return jobCount;
+  }
+
+  /**
+   * Count the connections that can still be opened to a database: the least headroom left under
+   * max_connections, the role's CONNECTION LIMIT and the database's CONNECTION LIMIT
+   * @returns null when the limits cannot be read
+   */
+  private async getFreeConnectionCount(pool: Pool): Promise<number | null> {
+    try {
+      const result = await pool.query(`
+        SELECT
+          current_setting('max_connections')::int
+            - current_setting('superuser_reserved_connections')::int
+            - (SELECT count(*) FROM pg_stat_activity WHERE backend_type = 'client backend')
+            AS server_free,
+          CASE WHEN r.rolconnlimit >= 0 THEN
+            r.rolconnlimit - (SELECT count(*) FROM pg_stat_activity WHERE usename = current_user)
+          END AS role_free,
+          CASE WHEN d.datconnlimit >= 0 THEN
+            d.datconnlimit - (SELECT count(*) FROM pg_stat_activity WHERE datname = current_database())
+          END AS database_free
+        FROM pg_roles r, pg_database d
+        WHERE r.rolname = current_user AND d.datname = current_database()
+      `);
+      const row = result.rows[0];
+      const limits = [row.server_free, row.role_free, row.database_free]
+        .filter(value => value !== null)
+        .map(value => parseInt(value));
+      return Math.min(...limits);
+    } catch (error) {
+      this.logError(
+        'Warning: Could not read connection limits, parallel jobs are not capped',
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Stream pg_dump output straight into pg_restore without writing a dump file
+   * pg_restore cannot run parallel jobs when reading from a pipe, so the restore is sequential
+   * @returns Bytes streamed
+   */
+  private async streamDumpToRestore(
+    dump: DumpSource,
+    restore: { config: DatabaseConfig; pool: Pool; schemaName?: string }
+  ): Promise<number> {
+    const startTime = Date.now();
+    this.log(
+      `🚰 Streaming ${dump.config.database} (${dump.schemaName} schema) into ${restore.config.database}...`
+    );
+
+    // pg_dump stdout is piped rather than buffered; its --verbose stderr is read line by line
+    const dumpProcess = execa('pg_dump', this.buildDumpArgs(dump), {
+      env: { ...process.env, PGPASSWORD: dump.config.password },
+      buffer: false,
+    });
+    const restoreProcess = execa(
+      'pg_restore',
+      this.buildRestoreArgs(restore.config, restore.schemaName),
+      { env: { ...process.env, PGPASSWORD: restore.config.password } }
+    );
+
+    // pg_restore reads the pipe sequentially, so its tables finish one after another
+    const restoreTracker = this.trackDumpProgress(
+      restoreProcess.stderr,
+      'restore',
+      restore.config.database,
+      false
+    );
+
+    let bytesStreamed = 0;
+    let tablesDumped = 0;
+    const dumpErrors: string[] = [];
+    createInterface({ input: dumpProcess.stderr }).on('line', line => {
+      if (line.includes('dumping contents of table')) {
+        tablesDumped++;
+      } else if (/^pg_dump: (error|detail|hint)/.test(line)) {
+        dumpErrors.push(line);
+      }
+    });
+
+    const byteCounter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytesStreamed += chunk.length;
+        callback(null, chunk);
+      },
+    });
+
+    const progressTimer = setInterval(() => {
+      void this.logStreamProgress(restore.pool, bytesStreamed, tablesDumped);
+    }, STREAM_PROGRESS_INTERVAL_MS);
+
+    try {
+      // pipeline() propagates backpressure: pg_dump is paused while pg_restore falls behind
+      await Promise.all([
+        pipeline(dumpProcess.stdout, byteCounter, restoreProcess.stdin),
+        withSpan(
+          'pg_dump',
+          { 'db.name': dump.config.database, 'migration.schema': dump.schemaName },
+          () => dumpProcess
+        ),
+        withSpan(
+          'pg_restore',
+          {
+            'db.name': restore.config.database,
+            'migration.schema': restore.schemaName ?? 'all',
+            'migration.jobs': 1,
+          },
+          () => restoreProcess
+        ),
+      ]);
+      await this.finishDumpProgress(restoreTracker, true);
+
+      const duration = Date.now() - startTime;
+      this.log(
+        `✅ Streamed ${this.formatBytes(bytesStreamed)} (${tablesDumped} tables) into ${restore.config.database} (${this.formatDuration(duration)})`
+      );
+      return bytesStreamed;
+    } catch (error) {
+      // Stop both sides: a dead pg_restore would otherwise leave pg_dump blocked on a full pipe
+      dumpProcess.kill();
+      restoreProcess.kill();
+      const [dumpResult, restoreResult] = await Promise.allSettled([dumpProcess, restoreProcess]);
+
+      // Report the process that actually failed rather than a broken pipe or our own kill
+      const failure = [restoreResult, dumpResult].find(
+        (result): result is PromiseRejectedResult =>
+          result.status === 'rejected' && !result.reason?.isTerminated
+      );
+      const cause = failure ? failure.reason : error;
+      const restoreErrors = restoreTracker.errorLines;
+      let reported = cause;
+      if (failure === dumpResult && dumpErrors.length > 0) {
+        reported = dumpErrors.join('; ');
+      } else if (failure === restoreResult && restoreErrors.length > 0) {
+        reported = restoreErrors.join('; ');
+      }
+      await this.finishDumpProgress(restoreTracker, false);
+
+      const duration = Date.now() - startTime;
+      this.logError(
+        `Streamed dump/restore failed after ${this.formatDuration(duration)} (${this.formatBytes(bytesStreamed)} streamed)`,
+        reported
+      );
+      throw cause;
+    } finally {
+      clearInterval(progressTimer);
+    }
+  }
+
+  /**
+   * Log bytes streamed, tables dumped and the rows copied so far by the running restore
+   */
+  private async logStreamProgress(
+    pool: Pool,
+    bytesStreamed: number,
+    tablesDumped: number
+  ): Promise<void> {
+    let copyProgress = '';
+    try {
+      // pg_stat_progress_copy is available from PostgreSQL 14
+      const result = await pool.query(`
+        SELECT relid::regclass AS table_name, tuples_processed
+        FROM pg_stat_progress_copy
+        WHERE datname = current_database()
+      `);
+      copyProgress = result.rows
+        .map(
+          (row: any) =>
+            `, copying ${row.table_name}: ${parseInt(row.tuples_processed).toLocaleString()} rows`
+        )
+        .join('');
+    } catch {
+      // Row progress is best effort; byte and table progress are always reported
+    }
+
+    this.log(
+      `📶 Streamed ${this.formatBytes(bytesStreamed)} (${tablesDumped} tables dumped${copyProgress})`
+    );
+  }
+
+  /**
+   * Read the size of each source table, used to weight dump and restore progress
+   * Tables whose size cannot be read count as empty, so progress falls back to table counts
+   */
+  private async getSourceTableSizes(sourceTables: TableInfo[]): Promise<Map<string, number>> {
+    const sizes = new Map(sourceTables.map(table => [table.tableName, 0]));
+    try {
+      const result = await this.sourcePool.query(
+        `
+        SELECT c.relname AS table_name, pg_relation_size(c.oid) AS bytes
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = 'public' AND c.relname = ANY($1)
+      `,
+        [sourceTables.map(table => table.tableName)]
+      );
+      for (const row of result.rows) {
+        sizes.set(row.table_name, parseInt(row.bytes));
+      }
+    } catch (error) {
+      this.logError(
+        'Warning: Could not read source table sizes, progress is estimated by table count',
+        error
+      );
+    }
+    return sizes;
+  }
+
+  /**
+   * Follow the verbose stderr of a pg_dump or pg_restore run, reporting each table it starts
+   * and finishes
+   * @param parallel Whether the run has more than one job
+   */
+  private trackDumpProgress(
+    stderr: Readable,
+    step: DumpProgressStep,
+    database: string,
+    parallel: boolean
+  ): DumpProgressTracker {
+    const tracker = new DumpProgressTracker(step, database, this.tableSizes, parallel);
+    createInterface({ input: stderr }).on('line', line => {
+      this.reportTableProgress(tracker, tracker.handleLine(line));
+    });
+    return tracker;
+  }
+
+  /**
+   * Log and emit tables started or finished by a dump or restore, and record the progress in
+   * the ledger for the `status` command
+   */
+  private reportTableProgress(tracker: DumpProgressTracker, updates: TableProgressUpdate[]): void {
+    if (updates.length === 0) {
+      return;
+    }
+
+    const progress = tracker.getProgress();
+    const counts = `${progress.tablesDone}/${progress.tablesTotal} tables, ~${progress.percent}%`;
+    for (const update of updates) {
+      const fields = { table: update.tableName };
+      if (update.status === 'running') {
+        this.log(
+          tracker.step === 'dump'
+            ? `📤 Dumping ${update.tableName} from ${tracker.database} (${counts})`
+            : `📥 Restoring ${update.tableName} into ${tracker.database} (${counts})`,
+          fields
+        );
+      } else {
+        const duration = this.formatDuration(update.durationMs ?? 0);
+        this.log(
+          tracker.step === 'dump'
+            ? `📤 Dumped ${update.tableName} (${duration}; ${counts})`
+            : `📥 Restored ${update.tableName} (${duration}; ${counts})`,
+          fields
+        );
+      }
+      this.emitEvent('tableProgress', {
+        step: tracker.step,
+        database: tracker.database,
+        tableName: update.tableName,
+        status: update.status,
+        durationMs: update.durationMs,
+        tablesDone: progress.tablesDone,
+        tablesTotal: progress.tablesTotal,
+        percent: progress.percent,
+      });
+    }
+
+    void this.recordDumpProgress(tracker);
+  }
+
+  /**
+   * Finish tracking a dump or restore: complete its running tables if the process succeeded,
+   * add its report to the migration stats and record its final progress
+   */
+  private async finishDumpProgress(
+    tracker: DumpProgressTracker,
+    succeeded: boolean
+  ): Promise<void> {
+    if (succeeded) {
+      this.reportTableProgress(tracker, tracker.complete());
+    }
+    this.stats.dumpProgress.push(tracker.getReport());
+    await this.recordDumpProgress(tracker, true);
+  }
+
+  /**
+   * Record dump/restore progress as a ledger checkpoint, at most every few seconds unless forced
+   * Writes are chained so a slow periodic write never lands after the final one.
+   */
+  private recordDumpProgress(tracker: DumpProgressTracker, force: boolean = false): Promise<void> {
+    const now = Date.now();
+    if (!force && now - this.dumpProgressRecordedAt < DUMP_PROGRESS_RECORD_INTERVAL_MS) {
+      return this.dumpProgressWrite;
+    }
+    this.dumpProgressRecordedAt = now;
+
+    const progress = tracker.getProgress();
+    this.dumpProgressWrite = this.dumpProgressWrite.then(() =>
+      this.recordCheckpoint(DUMP_PROGRESS_CHECKPOINT, { ...progress }).catch(() => {
+        // Progress is informational; a failed write never fails the dump or restore
+      })
+    );
+    return this.dumpProgressWrite;
+  }
+
+  /**
+   * Remap a dump of the source public schema to the shadow schema
+   * The dump is restored into a temporary staging database on the destination server, its
+   * tables are moved to a shadow schema there, and that shadow schema is dumped for Phase 2
+   * @returns Path of the shadow schema dump
+   */
+  private async remapPublicDumpToShadow(
+    sourceTables: TableInfo[],
+    dumpPath: string,
+    timestamp: number
+  ): Promise<string> {
+    const shadowDumpPath = this.getDumpPath('shadow_dump', timestamp);
+
+    await this.withStagingDatabase(timestamp, async (stagingConfig, stagingPool) => {
+      // The staging database already has a public schema, so only restore its contents
+      await this.restoreBinaryDump(dumpPath, stagingConfig, stagingPool, 'public');
+      await this.moveStagingTablesToShadow(stagingPool, sourceTables);
+      await this.createBinaryDump(shadowDumpPath, { config: stagingConfig, pool: stagingPool });
+    });
+
+    return shadowDumpPath;
+  }
+
+  /**
+   * Run a step against a temporary staging database on the destination server, dropping the
+   * database afterwards whether or not the step succeeded
+   */
+  private async withStagingDatabase<T>(
+    timestamp: number,
+    step: (stagingConfig: DatabaseConfig, stagingPool: Pool) => Promise<T>
+  ): Promise<T> {
+    const stagingDatabase = `migration_staging_${timestamp}`;
+    const stagingConfig: DatabaseConfig = { ...this.destConfig, database: stagingDatabase };
+
+    this.log(`🏗️  Creating staging database ${stagingDatabase} to remap public → shadow...`);
+    await this.destPool.query(`DROP DATABASE IF EXISTS "${stagingDatabase}"`);
+    await this.destPool.query(`CREATE DATABASE "${stagingDatabase}"`);
+
+    const stagingPool = new Pool({
+      ...stagingConfig,
+      ssl: stagingConfig.ssl !== false ? { rejectUnauthorized: false } : false,
+    });
+
+    try {
+      // Restored tables reference extension types (e.g. PostGIS geometry) in their original
+      // schemas, so install the destination's extensions in the same schemas first
+      const extensions = await this.destPool.query(`
+        SELECT e.extname, n.nspname
+        FROM pg_extension e
+        JOIN pg_namespace n ON n.oid = e.extnamespace
+        WHERE e.extname <> 'plpgsql'
+        ORDER BY e.oid
+      `);
+      for (const row of extensions.rows) {
+        await stagingPool.query(`CREATE SCHEMA IF NOT EXISTS "${row.nspname}"`);
+        await stagingPool.query(
+          `CREATE EXTENSION IF NOT EXISTS "${row.extname}" SCHEMA "${row.nspname}" CASCADE`
+        );
+      }
+
+      return await step(stagingConfig, stagingPool);
+    } finally {
+      await stagingPool.end();
+      try {
+        await this.destPool.query(`DROP DATABASE IF EXISTS "${stagingDatabase}"`);
+        this.log(`🧹 Dropped staging database ${stagingDatabase}`);
+      } catch (error) {
+        this.logError(`Warning: Could not drop staging database ${stagingDatabase}`, error);
+      }
+    }
+  }
+
+  /**
+   * Move the tables restored into the staging database's public schema to its shadow schema
+   */
+  private async moveStagingTablesToShadow(
+    stagingPool: Pool,
+    sourceTables: TableInfo[]
+  ): Promise<void> {
+    const stagingClient = await stagingPool.connect();
+    try {
+      await stagingClient.query('CREATE SCHEMA shadow;');
+      await this.moveObjectsToShadowSchema(stagingClient, sourceTables);
+    } finally {
+      stagingClient.release();
+    }
+  }
+
   /**
    * Move objects from public schema to shadow schema
    */
@@ -1626,81 +3505,592 @@ export class DatabaseMigrator {
   }
 
   /**
-   * Restore source database by moving tables back from shadow to public schema
+   * Restore source database by moving tables back from shadow to public schema
+   */
+  private async restoreSourceFromShadowDump(
+    sourceTables: Pick<TableInfo, 'tableName'>[]
+  ): Promise<void> {
+    this.log('🔄 Restoring source database - moving tables back to public schema...');
+
+    const sourceClient = await this.sourcePool.connect();
+    try {
+      // Move each table back from shadow to public schema
+      for (const table of sourceTables) {
+        try {
+          await sourceClient.query(`ALTER TABLE shadow."${table.tableName}" SET SCHEMA public;`);
+          this.log(`📦 Restored source table ${table.tableName} to public schema`);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          this.log(
+            `⚠️  Warning: Could not restore source table ${table.tableName}: ${errorMessage}`
+          );
+        }
+      }
+
+      // Clean up shadow schema on source
+      await sourceClient.query('DROP SCHEMA IF EXISTS shadow CASCADE;');
+      this.log('✅ Source database restored and shadow schema cleaned up');
+    } finally {
+      sourceClient.release();
+    }
+  }
+
+  /**
+   * Phase 4: Perform atomic schema swap
+   */
+  private async performAtomicSchemaSwap(timestamp: number): Promise<void> {
+    const swapStartTime = Date.now();
+    this.log('🔄 Phase 4: Performing atomic schema swap...');
+
+    const client = await this.destPool.connect();
+
+    try {
+      const backupSchemaName = `backup_${timestamp}`;
+
+      if (this.captureLateWrites) {
+        await ensureLateWriteJournal(client);
+      }
+
+      // Each attempt holds off writes itself: table locks or write-block triggers
+      const swap = await this.renameSchemasWithRetry(client, backupSchemaName);
+      if (this.captureLateWrites) {
+        // While the write-block triggers are still on the backup tables
+        await this.installBackupLateWriteCapture(client, backupSchemaName);
+      }
+      if (this.cutoverStrategy === 'triggers') {
+        // The protected tables are now in the backup schema, where late writes are captured
+        this.log('🔓 Removing write protection after atomic swap completion...');
+        await withSpan('disable write protection', {}, () =>
+          this.disableDestinationWriteProtection(backupSchemaName)
+        );
+      }
+      const { attempts, lockWaitMs, writesBlockedMs } = swap;
+
+      const swapDuration = Date.now() - swapStartTime;
+      this.log(
+        `✅ Atomic schema swap completed - migration is now live! (${this.formatDuration(swapDuration)}, rename transaction ${this.formatDuration(lockWaitMs)}, ${attempts} attempt${attempts === 1 ? '' : 's'})`
+      );
+      this.log(
+        `⏱️ Writes were ${this.cutoverStrategy === 'lock' ? 'held' : 'blocked'} for ${this.formatDuration(writesBlockedMs)} (${this.cutoverStrategy} cutover)`
+      );
+      this.emitEvent('swapCompleted', {
+        backupSchema: backupSchemaName,
+        lockWaitMs,
+        attempts,
+        cutoverStrategy: this.cutoverStrategy,
+        writesBlockedMs,
+        durationMs: swapDuration,
+      });
+
+      // Validate the atomic schema swap completed successfully
+      await this.validateAtomicSchemaSwap(timestamp);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new Error(`Failed to perform schema swap: ${error}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Run the schema rename transaction under `lock_timeout`, retrying with jittered backoff
+   * while it times out waiting for locks. `lock_timeout` bounds each lock wait, not the
+   * statement or the transaction, so every statement that takes locks gets what is left of the
+   * attempt's lock timeout and takes its locks one at a time. Each attempt is bounded by the
+   * swap deadline; once the retries or the deadline run out the swap is abandoned with nothing
+   * renamed.
+   * With the lock cutover each attempt first locks every public table against writes; with the
+   * triggers cutover each attempt creates the write-block triggers under the same lock timeout
+   * and a failed attempt drops them again before backing off.
+   * @returns Attempts made, the duration of the committed transaction and how long the
+   * attempts held writes on public tables
+   */
+  private async renameSchemasWithRetry(
+    client: PoolClient,
+    backupSchemaName: string
+  ): Promise<{ attempts: number; lockWaitMs: number; writesBlockedMs: number }> {
+    const deadline = Date.now() + this.swapDeadlineMs;
+    const swapPid: number = (await client.query('SELECT pg_backend_pid() AS pid')).rows[0].pid;
+    // Writers queue behind the table locks from the moment they are requested
+    let writesBlockedMs = 0;
+    let tablesLockedAt: number | undefined;
+
+    const abandon = (attempts: number): Error => {
+      this.swapRecovery = 'abandoned';
+      return new Error(
+        `Schema swap abandoned after ${attempts} attempt${attempts === 1 ? '' : 's'}: the schema renames could not acquire their locks ${attempts > this.swapRetries ? `in ${this.swapRetries + 1} attempts` : `within the ${this.formatDuration(this.swapDeadlineMs)} deadline`} - nothing was renamed`
+      );
+    };
+    // Never wait for locks past the deadline; lock_timeout = 0 would wait forever
+    const remainingLockTimeoutMs = (limitMs: number) =>
+      Math.max(1, Math.min(limitMs, deadline - Date.now()));
+
+    for (let attempt = 1; ; attempt++) {
+      if (Date.now() >= deadline) {
+        throw abandon(attempt - 1);
+      }
+      const lockTimeoutMs = remainingLockTimeoutMs(this.swapLockTimeoutMs);
+      const lockStartTime = Date.now();
+      const attemptDeadline = lockStartTime + lockTimeoutMs;
+      let writeProtected = false;
+
+      // An attempt still running halfway to its timeout is waiting: note who it waits for,
+      // since nobody is blocking it any more once lock_timeout cancels the wait
+      let blockersSample: Promise<SwapBlocker[]> | undefined;
+      const sampleTimer = setTimeout(() => {
+        blockersSample = this.findSwapBlockers(swapPid);
+      }, lockTimeoutMs / 2);
+
+      try {
+        await withSpan(
+          'swap attempt',
+          { 'migration.swap.attempt': attempt, 'migration.swap.lock_timeout_ms': lockTimeoutMs },
+          async () => {
+            if (this.cutoverStrategy === 'triggers') {
+              tablesLockedAt = Date.now();
+              await withSpan('enable write protection', {}, () =>
+                this.enableDestinationWriteProtection(client, attemptDeadline)
+              );
+              writeProtected = true;
+            }
+
+            await this.tracedQuery(client, 'BEGIN');
+
+            if (this.cutoverStrategy === 'lock') {
+              tablesLockedAt = Date.now();
+              await this.lockPublicTables(client, attemptDeadline);
+            }
+
+            // Move current public schema to backup; the renames wait behind other transactions
+            // only for what is left of the attempt
+            await this.limitLockWait(client, attemptDeadline);
+            await this.tracedQuery(client, `ALTER SCHEMA public RENAME TO ${backupSchemaName};`);
+            this.log(`📦 Moved public schema to ${backupSchemaName}`);
+
+            // Move shadow schema to public (becomes active)
+            await this.limitLockWait(client, attemptDeadline);
+            await this.tracedQuery(client, `ALTER SCHEMA shadow RENAME TO public;`);
+            this.log('🚀 Activated shadow schema as new public schema');
+
+            // Create new shadow schema for future use
+            await this.tracedQuery(client, 'CREATE SCHEMA shadow;');
+            this.log('✅ Created new shadow schema');
+
+            await this.tracedQuery(client, 'COMMIT');
+          }
+        );
+        if (tablesLockedAt !== undefined) {
+          writesBlockedMs += Date.now() - tablesLockedAt;
+        }
+        return { attempts: attempt, lockWaitMs: Date.now() - lockStartTime, writesBlockedMs };
+      } catch (error) {
+        await client.query('ROLLBACK');
+        if (writeProtected) {
+          // Writes must not stay blocked through the backoff
+          await this.disableDestinationWriteProtection();
+        }
+        if (tablesLockedAt !== undefined) {
+          writesBlockedMs += Date.now() - tablesLockedAt;
+          tablesLockedAt = undefined;
+        }
+        if ((error as { code?: string }).code !== LOCK_NOT_AVAILABLE) {
+          throw error;
+        }
+
+        const blockers = (await blockersSample) ?? [];
+        const backoffMs = Math.min(
+          SWAP_RETRY_MAX_DELAY_MS,
+          SWAP_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)
+        );
+        const retryInMs = Math.round(backoffMs / 2 + (Math.random() * backoffMs) / 2);
+        const abandoned = attempt > this.swapRetries || Date.now() + retryInMs >= deadline;
+
+        this.log(
+          `⚠️  Swap attempt ${attempt} could not acquire its locks within ${this.formatDuration(lockTimeoutMs)} (${blockers.length} blocking session${blockers.length === 1 ? '' : 's'})`
+        );
+        for (const blocker of blockers) {
+          this.log(`⛔ Blocking ${this.describeBlocker(blocker)}`);
+        }
+        this.emitEvent('swapLockTimeout', {
+          attempt,
+          lockTimeoutMs,
+          blockers,
+          retryInMs: abandoned ? undefined : retryInMs,
+        });
+
+        if (abandoned) {
+          throw abandon(attempt);
+        }
+
+        this.log(`⏳ Retrying the schema swap in ${this.formatDuration(retryInMs)}...`);
+        await sleep(retryInMs);
+      } finally {
+        clearTimeout(sampleTimer);
+      }
+    }
+  }
+
+  /**
+   * Journal late writes to the backup tables, in its own transaction once the swap has committed:
+   * its CREATE TRIGGER statements would otherwise make the swap wait behind writers on every
+   * table. With the triggers cutover the backup tables still reject writes at this point; with
+   * the lock cutover writes between the commit and the capture are not journaled.
+   * A failure only loses the capture, since the swap is already live.
+   */
+  private async installBackupLateWriteCapture(
+    client: PoolClient,
+    backupSchemaName: string
+  ): Promise<void> {
+    try {
+      await withSpan('install late write capture', {}, async () => {
+        await client.query('BEGIN');
+        await installLateWriteCapture(client, backupSchemaName);
+        await client.query('COMMIT');
+      });
+      this.log(`📝 Capturing late writes to ${backupSchemaName}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      this.log(
+        `⚠️  Could not install late write capture on ${backupSchemaName}: ${error instanceof Error ? error.message : error} - late writes will not be journaled`
+      );
+    }
+  }
+
+  /**
+   * Limit how long the next statement of the current transaction may wait for a lock, so that
+   * it gives up by `until`. `lock_timeout = 0` would wait forever, so at least 1ms is left.
+   */
+  private async limitLockWait(client: PoolClient, until: number): Promise<void> {
+    await client.query(`SET LOCAL lock_timeout = ${Math.max(1, until - Date.now())}`);
+  }
+
+  /**
+   * Lock every public table against writes for the rest of the swap transaction
+   * EXCLUSIVE mode still lets reads through; writers wait for the commit and then continue on
+   * the swapped tables. Tables are locked one per statement, so no lock wait runs past `until`.
+   */
+  private async lockPublicTables(client: PoolClient, until: number): Promise<void> {
+    const result = await client.query(`
+      SELECT format('%I.%I', schemaname, tablename) AS table_name
+      FROM pg_tables
+      WHERE schemaname = 'public'
+      ORDER BY tablename
+    `);
+    if (result.rows.length === 0) {
+      return;
+    }
+
+    const tables: string[] = result.rows.map(row => row.table_name);
+    await withSpan('lock tables', { 'migration.tables': tables.length }, async () => {
+      for (const table of tables) {
+        await this.limitLockWait(client, until);
+        await client.query(`LOCK TABLE ${table} IN EXCLUSIVE MODE`);
+      }
+    });
+    this.log(`🔒 Locked ${tables.length} public tables against writes`);
+  }
+
+  /**
+   * Find the sessions the given backend is waiting for, with their locks and current query
+   */
+  private async findSwapBlockers(swapPid: number): Promise<SwapBlocker[]> {
+    try {
+      const result = await this.destPool.query(
+        `
+        SELECT
+          a.pid,
+          a.usename,
+          a.application_name,
+          a.state,
+          left(a.query, 500) AS query,
+          (EXTRACT(EPOCH FROM now() - a.xact_start) * 1000)::bigint AS xact_age_ms,
+          COALESCE(
+            array_agg(DISTINCT l.mode || ' on ' || l.relation::regclass::text)
+              FILTER (WHERE l.relation IS NOT NULL),
+            '{}'
+          ) AS locks
+        FROM pg_stat_activity a
+        LEFT JOIN pg_locks l ON l.pid = a.pid AND l.granted
+        WHERE a.pid = ANY(pg_blocking_pids($1))
+        GROUP BY a.pid, a.usename, a.application_name, a.state, a.query, a.xact_start
+        ORDER BY a.xact_start NULLS LAST, a.pid
+      `,
+        [swapPid]
+      );
+      return result.rows.map(swapBlockerFromRow);
+    } catch (error) {
+      this.logError('Warning: Could not read the sessions blocking the schema swap', error);
+      return [];
+    }
+  }
+
+  /**
+   * Describe a blocking session for the log
+   */
+  private describeBlocker(blocker: SwapBlocker): string {
+    const age =
+      blocker.transactionAgeMs === null
+        ? 'no open transaction'
+        : `transaction open ${this.formatDuration(blocker.transactionAgeMs)}`;
+    const application = blocker.applicationName ? `, ${blocker.applicationName}` : '';
+    const locks = blocker.locks.length > 0 ? ` holds ${blocker.locks.join(', ')}` : '';
+    return `PID ${blocker.pid} (${blocker.user}${application}, ${blocker.state}, ${age})${locks}: ${blocker.query}`;
+  }
+
+  /**
+   * List the sessions holding locks on public tables right before the swap. With a
+   * termination policy, allowlisted sessions whose transaction is still open after the grace
+   * period are canceled or terminated so the swap does not queue behind them.
+   */
+  private async checkSwapBlockers(): Promise<void> {
+    this.log('🔍 Checking for sessions holding locks on public tables...');
+    const { blockers, observedAt } = await this.findSchemaLockHolders('public');
+    if (blockers.length === 0) {
+      this.log('✅ No sessions hold locks on public tables');
+      return;
+    }
+
+    for (const blocker of blockers) {
+      this.log(`🔒 ${this.describeBlocker(blocker)}`);
+    }
+
+    const policy = this.terminateBlockers;
+    const action = policy?.action ?? 'terminate';
+    const candidates = policy ? blockers.filter(blocker => isAllowlisted(blocker, policy)) : [];
+    if (!policy || candidates.length === 0) {
+      const message =
+        blockers.length === 1
+          ? '1 session holds locks on public tables - the swap may wait for it'
+          : `${blockers.length} sessions hold locks on public tables - the swap may wait for them`;
+      this.log(`⚠️  ${message}`);
+      this.warn(message);
+      if (policy) {
+        this.log('💡 None of them is allowlisted for termination');
+      }
+      this.emitEvent('swapBlockers', { blockers, stopped: [] });
+      return;
+    }
+
+    const gracePeriodMs = policy.gracePeriodMs ?? DEFAULT_BLOCKER_GRACE_PERIOD_MS;
+    this.log(
+      `⏳ Giving ${candidates.length} allowlisted session${candidates.length === 1 ? '' : 's'} ${this.formatDuration(gracePeriodMs)} to finish before ${action === 'cancel' ? 'canceling their queries' : 'terminating them'}...`
+    );
+    await sleep(gracePeriodMs);
+
+    const candidatePids = new Set(candidates.map(blocker => blocker.pid));
+    const remaining = (await this.findSchemaLockHolders('public')).blockers.filter(blocker =>
+      candidatePids.has(blocker.pid)
+    );
+    const stopped: SwapBlocker[] = [];
+    for (const blocker of remaining) {
+      if (await this.stopBlocker(blocker, observedAt, action)) {
+        stopped.push(blocker);
+      }
+    }
+    const finished = candidates.length - stopped.length;
+    if (finished > 0) {
+      this.log(
+        `✅ ${finished} allowlisted session${finished === 1 ? '' : 's'} finished within the grace period`
+      );
+    }
+    this.emitEvent('swapBlockers', { blockers, stopped, action });
+  }
+
+  /**
+   * Client sessions holding granted locks on relations in a destination schema
+   * @returns The sessions and the server time they were observed at
+   */
+  private async findSchemaLockHolders(
+    schemaName: string
+  ): Promise<{ blockers: SwapBlocker[]; observedAt: Date }> {
+    const result = await this.destPool.query(
+      `
+      SELECT
+        a.pid,
+        a.usename,
+        a.application_name,
+        a.state,
+        left(a.query, 500) AS query,
+        (EXTRACT(EPOCH FROM now() - a.xact_start) * 1000)::bigint AS xact_age_ms,
+        array_agg(DISTINCT l.mode || ' on ' || l.relation::regclass::text) AS locks,
+        now() AS observed_at
+      FROM pg_locks l
+      JOIN pg_class c ON c.oid = l.relation
+      JOIN pg_stat_activity a ON a.pid = l.pid
+      WHERE l.granted
+        AND l.database = (SELECT oid FROM pg_database WHERE datname = current_database())
+        AND c.relnamespace = $1::regnamespace
+        AND a.pid <> pg_backend_pid()
+        AND a.backend_type = 'client backend'
+      GROUP BY a.pid, a.usename, a.application_name, a.state, a.query, a.xact_start
+      ORDER BY a.xact_start NULLS LAST, a.pid
+    `,
+      [schemaName]
+    );
+    return {
+      blockers: result.rows.map(swapBlockerFromRow),
+      observedAt: result.rows[0]?.observed_at ?? new Date(),
+    };
+  }
+
+  /**
+   * Move application sessions off the backup schema after the swap, by terminating them in
+   * waves or notifying the application, then wait for every session to release its locks on
+   * backup relations. Problems are reported as warnings: the swap itself has succeeded.
+   */
+  private async resetApplicationSessions(
+    backupSchema: string,
+    policy: SessionResetPolicy
+  ): Promise<void> {
+    this.log(`🔁 Resetting application sessions (${policy.mode})...`);
+    let sessions: SwapBlocker[] = [];
+
+    try {
+      sessions = await this.findApplicationSessions(policy);
+      if (policy.mode === 'terminate') {
+        sessions = await this.terminateSessionsInWaves(sessions, policy);
+      } else {
+        const channel = policy.channel ?? DEFAULT_SESSION_RESET_CHANNEL;
+        await this.destPool.query('SELECT pg_notify($1, $2)', [
+          channel,
+          JSON.stringify({ event: 'schema_swapped', migrationId: this.migrationId, backupSchema }),
+        ]);
+        this.log(`📣 Notified channel ${channel} - listeners should run DISCARD ALL`);
+      }
+    } catch (error) {
+      this.logError('Warning: Could not reset application sessions', error);
+    }
+
+    const lingering = await this.waitForBackupLockRelease(
+      backupSchema,
+      policy.verifyTimeoutMs ?? DEFAULT_SESSION_RESET_VERIFY_TIMEOUT_MS
+    );
+    this.emitEvent('sessionsReset', { mode: policy.mode, sessions, lingering });
+  }
+
+  /**
+   * Client sessions of the allowlisted roles and applications, other than this tool's own
+   */
+  private async findApplicationSessions(policy: SessionResetPolicy): Promise<SwapBlocker[]> {
+    if (!policy.roles?.length && !policy.applications?.length) {
+      return [];
+    }
+    const result = await this.destPool.query(
+      `
+      SELECT
+        a.pid,
+        a.usename,
+        a.application_name,
+        a.state,
+        left(a.query, 500) AS query,
+        (EXTRACT(EPOCH FROM now() - a.xact_start) * 1000)::bigint AS xact_age_ms,
+        '{}'::text[] AS locks
+      FROM pg_stat_activity a
+      WHERE a.datname = current_database()
+        AND a.backend_type = 'client backend'
+        AND a.pid <> pg_backend_pid()
+        AND a.application_name <> $1
+        AND (a.usename = ANY($2) OR a.application_name = ANY($3))
+      ORDER BY a.backend_start, a.pid
+    `,
+      [MIGRATOR_APPLICATION_NAME, policy.roles ?? [], policy.applications ?? []]
+    );
+    return result.rows.map(swapBlockerFromRow);
+  }
+
+  /**
+   * Terminate sessions a wave at a time, pausing between waves so pools reconnect gradually
+   * @returns The sessions that were terminated
    */
-  private async restoreSourceFromShadowDump(sourceTables: TableInfo[]): Promise<void> {
-    this.log('🔄 Restoring source database - moving tables back to public schema...');
+  private async terminateSessionsInWaves(
+    sessions: SwapBlocker[],
+    policy: SessionResetPolicy
+  ): Promise<SwapBlocker[]> {
+    if (sessions.length === 0) {
+      this.log('✅ No application sessions to terminate');
+      return [];
+    }
 
-    const sourceClient = await this.sourcePool.connect();
+    const waveSize = policy.waveSize ?? DEFAULT_SESSION_RESET_WAVE_SIZE;
+    const waveCount = Math.ceil(sessions.length / waveSize);
+    const terminated: SwapBlocker[] = [];
+    for (let wave = 0; wave < waveCount; wave++) {
+      if (wave > 0) {
+        await sleep(policy.waveIntervalMs ?? DEFAULT_SESSION_RESET_WAVE_INTERVAL_MS);
+      }
+      const batch = sessions.slice(wave * waveSize, (wave + 1) * waveSize);
+      const result = await this.destPool.query(
+        'SELECT pid, pg_terminate_backend(pid) AS terminated FROM unnest($1::int[]) AS pid',
+        [batch.map(session => session.pid)]
+      );
+      const terminatedPids = new Set(result.rows.filter(row => row.terminated).map(row => row.pid));
+      terminated.push(...batch.filter(session => terminatedPids.has(session.pid)));
+      this.log(
+        `⛔ Wave ${wave + 1}/${waveCount}: terminated ${terminatedPids.size} of ${batch.length} application sessions`
+      );
+    }
+    return terminated;
+  }
+
+  /**
+   * Wait until no session holds locks on relations in the backup schema
+   * @returns The sessions still holding them at the timeout
+   */
+  private async waitForBackupLockRelease(
+    backupSchema: string,
+    timeoutMs: number
+  ): Promise<SwapBlocker[]> {
+    const deadline = Date.now() + timeoutMs;
     try {
-      // Move each table back from shadow to public schema
-      for (const table of sourceTables) {
-        try {
-          await sourceClient.query(`ALTER TABLE shadow."${table.tableName}" SET SCHEMA public;`);
-          this.log(`📦 Restored source table ${table.tableName} to public schema`);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          this.log(
-            `⚠️  Warning: Could not restore source table ${table.tableName}: ${errorMessage}`
+      for (;;) {
+        const { blockers } = await this.findSchemaLockHolders(backupSchema);
+        if (blockers.length === 0) {
+          this.log(`✅ No sessions hold locks on ${backupSchema} relations`);
+          return [];
+        }
+        if (Date.now() >= deadline) {
+          for (const blocker of blockers) {
+            this.log(`⚠️  Still using ${backupSchema}: ${this.describeBlocker(blocker)}`);
+          }
+          this.warn(
+            `${blockers.length} session${blockers.length === 1 ? '' : 's'} still hold${blockers.length === 1 ? 's' : ''} locks on ${backupSchema} relations after ${this.formatDuration(timeoutMs)}`
           );
+          return blockers;
         }
+        await sleep(BACKUP_LOCK_POLL_INTERVAL_MS);
       }
-
-      // Clean up shadow schema on source
-      await sourceClient.query('DROP SCHEMA IF EXISTS shadow CASCADE;');
-      this.log('✅ Source database restored and shadow schema cleaned up');
-    } finally {
-      sourceClient.release();
+    } catch (error) {
+      this.logError(`Warning: Could not check for sessions using ${backupSchema}`, error);
+      return [];
     }
   }
 
   /**
-   * Phase 4: Perform atomic schema swap
+   * Cancel or terminate a blocking session, unless the transaction it was seen in has ended
+   * @returns Whether the session was signaled
    */
-  private async performAtomicSchemaSwap(timestamp: number): Promise<void> {
-    const swapStartTime = Date.now();
-    this.log('🔄 Phase 4: Performing atomic schema swap...');
-
-    const client = await this.destPool.connect();
-
+  private async stopBlocker(
+    blocker: SwapBlocker,
+    observedAt: Date,
+    action: BlockerAction
+  ): Promise<boolean> {
+    const signal = action === 'cancel' ? 'pg_cancel_backend' : 'pg_terminate_backend';
     try {
-      // Enable brief write protection only during the actual schema swap operations
-      this.log('🔒 Enabling brief write protection for atomic schema operations...');
-      await this.enableDestinationWriteProtection(); // Enable full protection
-
-      await client.query('BEGIN');
-
-      // Move current public schema to backup
-      const backupSchemaName = `backup_${timestamp}`;
-      await client.query(`ALTER SCHEMA public RENAME TO ${backupSchemaName};`);
-      this.log(`📦 Moved public schema to ${backupSchemaName}`);
-
-      // Move shadow schema to public (becomes active)
-      await client.query(`ALTER SCHEMA shadow RENAME TO public;`);
-      this.log('🚀 Activated shadow schema as new public schema');
-
-      // Create new shadow schema for future use
-      await client.query('CREATE SCHEMA shadow;');
-      this.log('✅ Created new shadow schema');
-
-      await client.query('COMMIT');
-
-      // Remove write protection immediately after schema swap completes
-      this.log('🔓 Removing write protection after atomic swap completion...');
-      await this.disableDestinationWriteProtection();
-
-      const swapDuration = Date.now() - swapStartTime;
+      // A transaction started after the first check was not given its grace period
+      const result = await this.destPool.query(
+        `SELECT ${signal}(pid) AS signaled FROM pg_stat_activity WHERE pid = $1 AND xact_start < $2`,
+        [blocker.pid, observedAt]
+      );
+      if (!result.rows[0]?.signaled) {
+        return false;
+      }
       this.log(
-        `✅ Atomic schema swap completed - migration is now live! (${this.formatDuration(swapDuration)})`
+        `⛔ ${action === 'cancel' ? 'Canceled the query of' : 'Terminated'} ${this.describeBlocker(blocker)}`
       );
-
-      // Validate the atomic schema swap completed successfully
-      await this.validateAtomicSchemaSwap(timestamp);
+      return true;
     } catch (error) {
-      await client.query('ROLLBACK');
-      throw new Error(`Failed to perform schema swap: ${error}`);
-    } finally {
-      client.release();
+      this.logError(`Warning: Could not ${action} blocking session ${blocker.pid}`, error);
+      return false;
     }
   }
 
@@ -1735,6 +4125,20 @@ export class DatabaseMigrator {
     const client = await this.destPool.connect();
 
     try {
+      // Refuse tables without a usable key or column mapping before any trigger is created
+      const syncs = new Map<string, PreservedTableSync>();
+      for (const tableName of this.preservedTables) {
+        const tableInfo = destTables.find(
+          table => table.tableName.toLowerCase() === tableName.toLowerCase()
+        );
+        if (tableInfo) {
+          syncs.set(
+            tableInfo.tableName,
+            await this.resolvePreservedTableSync(client, tableInfo.tableName)
+          );
+        }
+      }
+
       for (const tableName of this.preservedTables) {
         // Get table info from destTables for better validation
         const tableInfo = destTables.find(
@@ -1742,7 +4146,9 @@ export class DatabaseMigrator {
         );
 
         if (!tableInfo) {
-          this.log(`⚠️  Preserved table ${tableName} not found in destination schema, skipping`);
+          this.log(`⚠️  Preserved table ${tableName} not found in destination schema, skipping`, {
+            table: tableName,
+          });
           continue;
         }
 
@@ -1765,7 +4171,8 @@ export class DatabaseMigrator {
           [actualTableName]
         );
 
-        if (tableExists.rows[0].exists) {
+        const sync = syncs.get(actualTableName);
+        if (tableExists.rows[0].exists && sync) {
           // Begin transaction to eliminate race condition between copy and trigger creation
           await client.query('BEGIN');
 
@@ -1774,13 +4181,20 @@ export class DatabaseMigrator {
             // Temporarily disable foreign key constraints for this operation
             await client.query('SET session_replication_role = replica');
             await client.query(`DELETE FROM shadow."${actualTableName}"`);
+            const { plan } = sync;
             await client.query(
-              `INSERT INTO shadow."${actualTableName}" SELECT * FROM public."${actualTableName}"`
+              `INSERT INTO shadow."${actualTableName}" (${plan.columns.map(col => `"${col.column}"`).join(', ')})
+               ${plan.overridingSystemValue ? 'OVERRIDING SYSTEM VALUE' : ''}
+               SELECT ${plan.columns.map(col => col.expression).join(', ')} FROM public."${actualTableName}"`
             );
             await client.query('SET session_replication_role = origin');
 
             // Step 2: Setup real-time sync triggers (in same transaction)
-            const triggerInfo = await this.createRealtimeSyncTrigger(client, actualTableName);
+            const triggerInfo = await withSpan(
+              'create sync trigger',
+              { 'db.sql.table': actualTableName },
+              () => this.createRealtimeSyncTrigger(client, actualTableName, sync)
+            );
             triggerInfo.checksum = `sync_${timestamp}`; // Use timestamp for tracking
             this.activeSyncTriggers.push(triggerInfo);
 
@@ -1827,31 +4241,239 @@ export class DatabaseMigrator {
   }
 
   /**
-   * Create real-time sync trigger for a preserved table
+   * Resolve the columns the sync trigger of a preserved table identifies rows by, from
+   * `pg_index`: the primary key, or the unique index chosen in `syncKeys`. Like a replica
+   * identity index, a chosen index must be unique, valid, non-partial and on NOT NULL columns
+   * only, so it matches exactly one row.
+   * @returns null for a full row match
    */
-  private async createRealtimeSyncTrigger(
-    client: any,
-    tableName: string
-  ): Promise<SyncTriggerInfo> {
-    const functionName = `sync_${tableName.toLowerCase()}_to_shadow`;
-    const triggerName = `${functionName}_trigger`;
+  private async resolveSyncKey(db: Pool | PoolClient, tableName: string): Promise<string[] | null> {
+    const choice = this.syncKeys.get(tableName.toLowerCase());
+    if (choice === FULL_ROW_SYNC_KEY) {
+      return null;
+    }
 
-    // Get table columns for dynamic trigger function
-    const columnsResult = await client.query(
+    const result = await db.query(
       `
-      SELECT column_name, data_type 
-      FROM information_schema.columns 
-      WHERE table_schema = 'public' 
-      AND table_name = $1 
-      ORDER BY ordinal_position
+      SELECT
+        ci.relname AS index_name,
+        i.indisprimary AS is_primary,
+        i.indisunique AS is_unique,
+        i.indisvalid AS is_valid,
+        i.indpred IS NOT NULL AS is_partial,
+        0 = ANY(i.indkey) AS has_expressions,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(i.indkey) WITH ORDINALITY AS k(attnum, position)
+          JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.attnum
+          WHERE k.position <= i.indnkeyatts
+          ORDER BY k.position
+        ) AS columns,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(i.indkey) WITH ORDINALITY AS k(attnum, position)
+          JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.attnum
+          WHERE k.position <= i.indnkeyatts AND NOT a.attnotnull
+        ) AS nullable_columns
+      FROM pg_index i
+      JOIN pg_class ci ON ci.oid = i.indexrelid
+      WHERE i.indrelid = $1::regclass AND (i.indisprimary OR ci.relname = $2)
+    `,
+      [`public."${tableName}"`, choice ?? null]
+    );
+
+    if (choice === undefined) {
+      const primaryKey = result.rows.find(row => row.is_primary);
+      if (!primaryKey) {
+        throw new Error(
+          `Preserved table ${tableName} has no primary key - choose a unique index or ${FULL_ROW_SYNC_KEY} as its sync key`
+        );
+      }
+      return primaryKey.columns;
+    }
+
+    const index = result.rows.find(row => row.index_name === choice);
+    if (!index) {
+      throw new Error(`Sync key index ${choice} not found on preserved table ${tableName}`);
+    }
+    const problems = [
+      !index.is_unique && 'it is not unique',
+      !index.is_valid && 'it is not valid',
+      index.is_partial && 'it is partial',
+      index.has_expressions && 'it indexes expressions',
+      index.nullable_columns.length > 0 && `${index.nullable_columns.join(', ')} can be NULL`,
+    ].filter(Boolean);
+    if (problems.length > 0) {
+      throw new Error(
+        `Index ${choice} cannot be the sync key of preserved table ${tableName}: ${problems.join(', ')}`
+      );
+    }
+    return index.columns;
+  }
+
+  /**
+   * Refuse a preserved table whose copied `GENERATED ALWAYS` identity column is part of a unique
+   * index other than the sync key: the sync UPDATE cannot set such a column, so a change to it
+   * in public would leave the shadow table out of step without notice
+   * @param schemaName Schema holding the table the shadow table is (or will be) restored as
+   */
+  private async checkIdentityUniqueKeys(
+    db: Pool | PoolClient,
+    schemaName: string,
+    tableName: string,
+    shadowColumns: ColumnDefinition[],
+    plan: ColumnMappingPlan,
+    keyColumns: string[] | null
+  ): Promise<void> {
+    const copied = new Set(plan.columns.map(column => column.column));
+    const identityColumns = shadowColumns
+      .filter(column => column.identity === 'a' && copied.has(column.name))
+      .map(column => column.name);
+    if (identityColumns.length === 0) {
+      return;
+    }
+
+    const result = await db.query(
+      `
+      SELECT
+        ci.relname AS index_name,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(i.indkey) AS k(attnum)
+          JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.attnum
+        ) AS columns
+      FROM pg_index i
+      JOIN pg_class ci ON ci.oid = i.indexrelid
+      WHERE i.indrelid = to_regclass($1) AND i.indisunique
+      ORDER BY ci.relname
     `,
-      [tableName]
+      [`"${schemaName}"."${tableName}"`]
+    );
+
+    // Shadow columns the sync key is copied to
+    const keys = new Set(
+      (keyColumns ?? []).map(key => plan.columns.find(column => column.from === key)?.column)
+    );
+    for (const row of result.rows) {
+      const columns: string[] = row.columns;
+      if (keyColumns && columns.length === keys.size && columns.every(name => keys.has(name))) {
+        continue;
+      }
+      const column = identityColumns.find(name => columns.includes(name));
+      if (column) {
+        throw new Error(
+          `Column ${tableName}.${column} is GENERATED ALWAYS AS IDENTITY and part of unique index ${row.index_name}, which is not the sync key - the sync trigger cannot update it, so choose that index as the sync key or make the column GENERATED BY DEFAULT`
+        );
+      }
+    }
+  }
+
+  /**
+   * Resolve how a preserved table is copied to its shadow table: the value of each shadow
+   * column, and how the shadow row of an updated or deleted row is found
+   */
+  private async resolvePreservedTableSync(
+    client: PoolClient,
+    tableName: string
+  ): Promise<PreservedTableSync> {
+    const keyColumns = await this.resolveSyncKey(client, tableName);
+    const shadowColumns = await readColumnDefinitions(client, 'shadow', tableName);
+    const plan = resolveColumnMapping(
+      tableName,
+      await readColumnDefinitions(client, 'public', tableName),
+      shadowColumns,
+      this.columnMappings.get(tableName.toLowerCase())
+    );
+    await this.checkIdentityUniqueKeys(
+      client,
+      'shadow',
+      tableName,
+      shadowColumns,
+      plan,
+      keyColumns
     );
 
-    const columns = columnsResult.rows.map((row: any) => row.column_name);
-    const columnList = columns.map((col: string) => `"${col}"`).join(', ');
-    const newColumnList = columns.map((col: string) => `NEW."${col}"`).join(', ');
-    const setClause = columns.map((col: string) => `"${col}" = NEW."${col}"`).join(', ');
+    if (
+      plan.columns.some(column => column.source !== 'name') ||
+      plan.skippedShadowColumns.length > 0 ||
+      plan.unmappedPublicColumns.length > 0
+    ) {
+      this.log(`🧭 Column mapping for ${tableName}:`, { table: tableName });
+      for (const line of describeColumnMapping(plan)) {
+        this.log(`   ${line}`, { table: tableName });
+      }
+    }
+    if (plan.unmappedPublicColumns.length > 0) {
+      this.log(
+        `⚠️  ${tableName}: public columns not copied to the shadow table: ${plan.unmappedPublicColumns.join(', ')}`,
+        { table: tableName }
+      );
+    }
+    for (const column of plan.columns.filter(resolved => resolved.source === 'default')) {
+      this.log(
+        `⚠️  ${tableName}.${column.column} is new, NOT NULL and has no default - every synced row gets ${column.expression}`,
+        { table: tableName }
+      );
+    }
+
+    // Shadow columns are compared with the OLD values mapped the way they were copied
+    const oldValue = (column: ResolvedColumn) =>
+      `OLD."${column.from}"${column.cast ? `::${column.cast}` : ''}`;
+    let oldRowMatch: string;
+    if (keyColumns) {
+      oldRowMatch = keyColumns
+        .map(key => {
+          const column = plan.columns.find(candidate => candidate.from === key);
+          if (!column) {
+            throw new Error(
+              `Sync key column ${key} of preserved table ${tableName} is not copied to a shadow column`
+            );
+          }
+          return `"${column.column}" = ${oldValue(column)}`;
+        })
+        .join(' AND ');
+    } else {
+      // Every copied column compared as text (which also works for types without an equality
+      // operator), one row of any duplicates at a time
+      const copied = plan.columns.filter(column => column.from !== undefined);
+      oldRowMatch = `ctid = (
+            SELECT ctid FROM shadow."${tableName}"
+            WHERE ${copied.map(column => `"${column.column}"::text IS NOT DISTINCT FROM (${oldValue(column)})::text`).join(' AND ')}
+            LIMIT 1
+          )`;
+    }
+
+    return { plan, keyColumns, oldRowMatch };
+  }
+
+  /**
+   * Create real-time sync trigger for a preserved table
+   * The mapped values are computed over `(SELECT NEW.*)`, so mapping expressions refer to the
+   * columns of the public row just like in the initial copy.
+   */
+  private async createRealtimeSyncTrigger(
+    client: any,
+    tableName: string,
+    sync: PreservedTableSync
+  ): Promise<SyncTriggerInfo> {
+    const startTime = Date.now();
+    const { functionName, triggerName } = this.getSyncTriggerNames(tableName);
+    const { plan, keyColumns, oldRowMatch } = sync;
+
+    const columnList = plan.columns.map(col => `"${col.column}"`).join(', ');
+    const valueList = plan.columns.map(col => col.expression).join(', ');
+    const overriding = plan.overridingSystemValue ? 'OVERRIDING SYSTEM VALUE' : '';
+    const insertSQL = `INSERT INTO shadow."${tableName}" (${columnList}) ${overriding}
+          SELECT ${valueList} FROM (SELECT NEW.*) AS src`;
+    // With nothing an UPDATE may set, an update replaces the shadow row: the values it is
+    // matched by may have changed, and without a unique key nothing catches a duplicate
+    const updateSQL =
+      plan.updateColumns.length > 0
+        ? `UPDATE shadow."${tableName}"
+          SET (${plan.updateColumns.map(col => `"${col.column}"`).join(', ')}) = (SELECT ${plan.updateColumns.map(col => col.expression).join(', ')} FROM (SELECT NEW.*) AS src)
+          WHERE ${oldRowMatch}`
+        : `DELETE FROM shadow."${tableName}" WHERE ${oldRowMatch};
+          ${insertSQL}`;
 
     // Create trigger function
     const functionSQL = `
@@ -1859,16 +4481,13 @@ export class DatabaseMigrator {
       RETURNS TRIGGER AS $$
       BEGIN
         IF TG_OP = 'DELETE' THEN
-          DELETE FROM shadow."${tableName}" WHERE id = OLD.id;
+          DELETE FROM shadow."${tableName}" WHERE ${oldRowMatch};
           RETURN OLD;
         ELSIF TG_OP = 'UPDATE' THEN
-          UPDATE shadow."${tableName}" 
-          SET ${setClause}
-          WHERE id = OLD.id;
+          ${updateSQL};
           RETURN NEW;
         ELSIF TG_OP = 'INSERT' THEN
-          INSERT INTO shadow."${tableName}" (${columnList})
-          VALUES (${newColumnList});
+          ${insertSQL};
           RETURN NEW;
         END IF;
         RETURN NULL;
@@ -1878,7 +4497,8 @@ export class DatabaseMigrator {
 
     await client.query(functionSQL);
 
-    // Create trigger
+    // Create trigger (replacing any left behind by an interrupted preparation)
+    await client.query(`DROP TRIGGER IF EXISTS ${triggerName} ON public."${tableName}"`);
     const triggerSQL = `
       CREATE TRIGGER ${triggerName}
         AFTER INSERT OR UPDATE OR DELETE ON public."${tableName}"
@@ -1887,7 +4507,15 @@ export class DatabaseMigrator {
 
     await client.query(triggerSQL);
 
-    this.log(`✅ Created sync trigger: ${triggerName}`);
+    this.log(
+      `✅ Created sync trigger: ${triggerName} (${keyColumns ? `key: ${keyColumns.join(', ')}` : 'full row match'})`,
+      { table: tableName }
+    );
+    this.emitEvent('triggerCreated', {
+      tableName,
+      triggerName,
+      durationMs: Date.now() - startTime,
+    });
 
     return {
       tableName,
@@ -1899,6 +4527,14 @@ export class DatabaseMigrator {
     };
   }
 
+  /**
+   * Get the sync function and trigger names used for a preserved table
+   */
+  private getSyncTriggerNames(tableName: string): { functionName: string; triggerName: string } {
+    const functionName = `sync_${tableName.toLowerCase()}_to_shadow`;
+    return { functionName, triggerName: `${functionName}_trigger` };
+  }
+
   /**
    * Phase 6: Cleanup sync triggers and validate consistency
    */
@@ -1973,8 +4609,15 @@ export class DatabaseMigrator {
           );
 
           // Drop trigger from the correct schema (backup schema after swap)
-          await client.query(
-            `DROP TRIGGER IF EXISTS ${triggerInfo.triggerName} ON ${schemaName}."${triggerInfo.tableName}"`
+          const dropTrigger = `DROP TRIGGER IF EXISTS ${triggerInfo.triggerName} ON ${schemaName}."${triggerInfo.tableName}"`;
+          await withSpan(
+            'drop sync trigger',
+            {
+              'db.sql.table': triggerInfo.tableName,
+              'db.statement': dropTrigger,
+              'migration.trigger': triggerInfo.triggerName,
+            },
+            () => client.query(dropTrigger)
           );
 
           // Verify trigger cleanup by checking information_schema again
@@ -2125,6 +4768,9 @@ export class DatabaseMigrator {
       );
 
       if (backupExists.rows[0].exists) {
+        // Writes to the restored tables are live again, not late
+        await dropLateWriteCapture(client, backupSchemaName);
+
         // Move current public to temp name
         await client.query(`ALTER SCHEMA public RENAME TO failed_migration_${timestamp};`);
 
@@ -2190,7 +4836,14 @@ export class DatabaseMigrator {
 
     for (const table of tables) {
       for (const sequence of table.sequences) {
+        const checkpoint = `sequence:${sequence.sequenceName}`;
+        if (this.checkpoints.has(checkpoint)) {
+          this.log(`⏭️  Sequence ${sequence.sequenceName} already reset`);
+          continue;
+        }
+
         try {
+          const startTime = Date.now();
           const tableName = table.tableName.replace('_shadow', '');
 
           // First check if the table exists
@@ -2245,19 +4898,38 @@ export class DatabaseMigrator {
             continue;
           }
 
-          // Properly quote table and column names to handle case sensitivity
-          const maxResult = await this.destPool.query(
-            `SELECT COALESCE(MAX("${sequence.columnName}"), 0) as max_val FROM "${tableName}"`
+          const { maxValue, nextValue } = await withSpan(
+            'reset sequence',
+            { 'db.sql.table': tableName, 'migration.sequence': sequence.sequenceName },
+            async () => {
+              // Properly quote table and column names to handle case sensitivity
+              const maxResult = await this.destPool.query(
+                `SELECT COALESCE(MAX("${sequence.columnName}"), 0) as max_val FROM "${tableName}"`
+              );
+              const maxValue = parseInt(maxResult.rows[0].max_val);
+              const nextValue = maxValue + 1;
+
+              await this.destPool.query(`SELECT setval('${sequence.sequenceName}', $1)`, [
+                nextValue,
+              ]);
+              return { maxValue, nextValue };
+            }
           );
-          const maxValue = parseInt(maxResult.rows[0].max_val);
-          const nextValue = maxValue + 1;
-
-          await this.destPool.query(`SELECT setval('${sequence.sequenceName}', $1)`, [nextValue]);
           this.log(
-            `✅ Reset sequence ${sequence.sequenceName} to ${nextValue} (max value in ${tableName}.${sequence.columnName}: ${maxValue})`
+            `✅ Reset sequence ${sequence.sequenceName} to ${nextValue} (max value in ${tableName}.${sequence.columnName}: ${maxValue})`,
+            { table: tableName }
           );
+          this.emitEvent('sequenceReset', {
+            sequenceName: sequence.sequenceName,
+            tableName,
+            value: nextValue,
+            durationMs: Date.now() - startTime,
+          });
+          await this.recordCheckpoint(checkpoint, { value: nextValue });
         } catch (error) {
-          this.logError(`Failed to reset sequence ${sequence.sequenceName}`, error);
+          this.logError(`Failed to reset sequence ${sequence.sequenceName}`, error, {
+            table: table.tableName,
+          });
         }
       }
     }
@@ -2277,6 +4949,12 @@ export class DatabaseMigrator {
             continue;
           }
 
+          const checkpoint = `index:${index.indexName}`;
+          if (this.checkpoints.has(checkpoint)) {
+            this.log(`⏭️  Index ${index.indexName} already recreated`);
+            continue;
+          }
+
           // Update index definition to use correct table name
           const tableName = table.tableName.replace('_shadow', '');
           let indexDef = index.definition.replace(table.tableName, tableName);
@@ -2296,11 +4974,28 @@ export class DatabaseMigrator {
             this.log(`🌍 Recreating spatial index: ${index.indexName}`);
           }
 
-          await this.destPool.query(indexDef);
-          this.log(`✅ Recreated index: ${index.indexName}`);
+          const startTime = Date.now();
+          await withSpan(
+            'create index',
+            {
+              'db.sql.table': tableName,
+              'db.statement': indexDef,
+              'migration.index': index.indexName,
+            },
+            () => this.destPool.query(indexDef)
+          );
+          this.log(`✅ Recreated index: ${index.indexName}`, { table: tableName });
+          this.emitEvent('indexRecreated', {
+            indexName: index.indexName,
+            tableName,
+            durationMs: Date.now() - startTime,
+          });
+          await this.recordCheckpoint(checkpoint);
         } catch (error) {
-          this.logError(`Failed to recreate index ${index.indexName}`, error);
-          this.stats.warnings.push(`Could not recreate index ${index.indexName}: ${error}`);
+          this.logError(`Failed to recreate index ${index.indexName}`, error, {
+            table: table.tableName,
+          });
+          this.warn(`Could not recreate index ${index.indexName}: ${error}`);
         }
       }
     }
@@ -2315,6 +5010,7 @@ export class DatabaseMigrator {
     try {
       await this.sourcePool.end();
       await this.destPool.end();
+      this.dumpStorage?.close();
       this.log('✅ Database connections closed');
     } catch (error) {
       this.logError('Error during cleanup', error);
@@ -2324,22 +5020,219 @@ export class DatabaseMigrator {
   /**
    * Log informational messages
    */
-  private log(message: string): void {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] ${message}`;
-    console.log(logMessage);
-    this.logBuffer.push(logMessage);
+  private log(message: string, fields: LogFields = {}): void {
+    // Messages flagged with ⚠️ are warnings
+    const level = message.trimStart().startsWith('⚠️') ? 'warn' : 'info';
+    this.writeLog(createLogRecord(level, message, this.logFields(fields)));
   }
 
   /**
    * Log error messages
    */
-  private logError(message: string, error: any): void {
-    const timestamp = new Date().toISOString();
-    const errorMessage = `[${timestamp}] ❌ ${message}: ${error}`;
-    console.error(errorMessage);
-    this.stats.errors.push(errorMessage);
-    this.logBuffer.push(errorMessage);
+  private logError(message: string, error: any, fields: LogFields = {}): void {
+    const record = createLogRecord('error', message, this.logFields(fields), error);
+    this.stats.errors.push(this.writeLog(record));
+    this.emitEvent('error', { message: record.message, error: record.error ?? '' });
+  }
+
+  /**
+   * Keep a record in the log buffer and publish it
+   * @returns The record as a text line
+   */
+  private writeLog(record: LogRecord): string {
+    const line = formatLogRecord(record);
+    this.logBuffer.push(line);
+    this.emitEvent('log', { ...record, line });
+    return line;
+  }
+
+  /**
+   * Fields of the current migration and phase, plus record-specific fields
+   */
+  private logFields(fields: LogFields): LogFields {
+    return { migrationId: this.migrationId, phase: this.currentPhase, ...fields };
+  }
+
+  /**
+   * Record a warning for the migration summary
+   */
+  private warn(message: string): void {
+    this.stats.warnings.push(message);
+    this.emitEvent('warning', { message });
+  }
+
+  /**
+   * Announce the start of a phase
+   * @returns The phase start time
+   */
+  private startPhase(phase: number): number {
+    this.currentPhase = phase;
+    this.emitEvent('phaseStarted', { phase, name: PHASE_NAMES[phase] });
+    return Date.now();
+  }
+
+  /**
+   * Log and announce the completion of a phase
+   */
+  private completePhase(phase: number, startTime: number): void {
+    const durationMs = Date.now() - startTime;
+    this.log(`✅ Phase ${phase} completed (${this.formatDuration(durationMs)})`);
+    this.currentPhase = undefined;
+    this.emitEvent('phaseCompleted', { phase, name: PHASE_NAMES[phase], durationMs });
+  }
+
+  /**
+   * Run a phase in its own span, announcing its start and completion
+   */
+  private async runPhase<T>(phase: number, run: () => Promise<T>): Promise<T> {
+    const startTime = this.startPhase(phase);
+    const result = await withSpan(
+      `Phase ${phase}: ${PHASE_NAMES[phase]}`,
+      { 'migration.phase': phase },
+      run
+    );
+    this.completePhase(phase, startTime);
+    return result;
+  }
+
+  /**
+   * Run one statement in its own span, so a trace shows which statement waited for locks
+   */
+  private tracedQuery(client: PoolClient, statement: string): Promise<QueryResult> {
+    const name = statement.split(/\s+/).slice(0, 2).join(' ').replace(/;$/, '');
+    return withSpan(name, { 'db.system': 'postgresql', 'db.statement': statement }, () =>
+      client.query(statement)
+    );
+  }
+
+  /**
+   * Run a public operation in a root span, marked failed when its result reports a failure
+   */
+  private traceOperation<R extends { success: boolean; migrationId?: string; error?: string }>(
+    operation: string,
+    run: () => Promise<R>
+  ): Promise<R> {
+    const attributes: Attributes = {
+      'db.system': 'postgresql',
+      'migration.dest.database': this.destConfig.database,
+      'migration.dry_run': this.dryRun,
+    };
+    // The swap and resume-only commands run without a source database
+    if (this.sourceConfig.database) {
+      attributes['migration.source.database'] = this.sourceConfig.database;
+    }
+    return withSpan(operation, attributes, async span => {
+      const result = await run();
+      if (result.migrationId) {
+        span.setAttribute('migration.id', result.migrationId);
+      }
+      if (!result.success) {
+        markSpanFailed(span, result.error);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Notify webhooks of the outcome of a public operation
+   * The result's logs are taken again afterwards, so they include the delivery outcome.
+   */
+  private async notifyResult(result: MigrationResult | PreparationResult): Promise<void> {
+    let event: WebhookEventType;
+    if (result.success) {
+      event = this.completionStarted ? 'swap.completed' : 'prepare.completed';
+    } else if (this.swapRecovery === 'rolled_back') {
+      event = 'swap.rolled_back';
+    } else if (this.swapRecovery === 'manual_intervention') {
+      event = 'manual_intervention_required';
+    } else {
+      event = this.completionStarted ? 'swap.failed' : 'prepare.failed';
+    }
+
+    const { stats } = result;
+    await this.notifyWebhooks(event, {
+      migrationId: result.migrationId || this.migrationId,
+      success: result.success,
+      error: result.error,
+      data: {
+        ...('activeTriggers' in result && {
+          timestamp: result.timestamp || undefined,
+          activeTriggers: result.activeTriggers.map(trigger => trigger.tableName),
+        }),
+        snapshotLsn: result.snapshotLsn,
+        durationMs: (stats.endTime ?? new Date()).getTime() - stats.startTime.getTime(),
+        tablesProcessed: stats.tablesProcessed,
+        recordsMigrated: stats.recordsMigrated,
+        bytesTransferred: stats.bytesTransferred,
+        warnings: stats.warnings,
+        errors: stats.errors,
+      },
+    });
+    result.logs = [...this.logBuffer];
+  }
+
+  /**
+   * Send a lifecycle event to the configured webhooks and log failed deliveries
+   */
+  private async notifyWebhooks(
+    event: WebhookEventType,
+    details: Pick<WebhookPayload, 'migrationId' | 'success' | 'error' | 'data'>
+  ): Promise<void> {
+    if (!this.webhooks || this.dryRun) {
+      return;
+    }
+
+    const deliveries = await this.webhooks.notify({
+      event,
+      operation: this.operation,
+      occurredAt: new Date().toISOString(),
+      database: this.destConfig.database,
+      ...details,
+    });
+    for (const delivery of deliveries) {
+      if (delivery.delivered) {
+        this.log(`📨 Webhook ${event} delivered to ${new URL(delivery.url).host}`);
+      } else {
+        this.log(`⚠️  ${describeFailedDelivery(event, delivery)}`);
+      }
+    }
+  }
+
+  /**
+   * Log and announce phases that are not run
+   */
+  private skipPhase(reason: string, ...phases: number[]): void {
+    this.log(`⏭️  ${reason}`);
+    for (const phase of phases) {
+      this.emitEvent('phaseSkipped', { phase, name: PHASE_NAMES[phase], reason });
+    }
+  }
+
+  /**
+   * Announce the end of a public operation, once its connections are closed
+   */
+  private emitFinished(operation: MigrationOperation, failure: unknown): void {
+    this.emitEvent('finished', {
+      operation,
+      success: failure === undefined,
+      durationMs: (this.stats.endTime ?? new Date()).getTime() - this.stats.startTime.getTime(),
+      tablesProcessed: this.stats.tablesProcessed,
+      recordsMigrated: this.stats.recordsMigrated,
+      bytesTransferred: this.stats.bytesTransferred,
+      warningCount: this.stats.warnings.length,
+      errorCount: this.stats.errors.length,
+      error: failure === undefined ? undefined : describeError(failure),
+    });
+  }
+
+  /**
+   * Format a byte count to human readable format
+   */
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
   }
 
   /**
@@ -2396,9 +5289,14 @@ export class DatabaseMigrator {
           const tableCount = parseInt(result.rows[0].count);
           totalRecords += tableCount;
 
-          this.log(`📋 ${table.tableName}: ${tableCount} records migrated`);
+          this.log(`📋 ${table.tableName}: ${tableCount} records migrated`, {
+            table: table.tableName,
+          });
+          this.emitEvent('tableRestored', { tableName: table.tableName, rowCount: tableCount });
         } catch (error) {
-          this.logError(`Could not count records in ${table.tableName}`, error);
+          this.logError(`Could not count records in ${table.tableName}`, error, {
+            table: table.tableName,
+          });
         }
       }
 
@@ -2505,17 +5403,26 @@ export class DatabaseMigrator {
 
   /**
    * Enable write protection on destination database tables to prevent data modification during migration
-   * Uses triggers that block INSERT/UPDATE/DELETE operations while allowing schema operations
+   * Uses triggers that block INSERT/UPDATE/DELETE operations while allowing schema operations.
+   * The triggers are created in one transaction under `lock_timeout`, so a timeout leaves no
+   * table protected.
+   * @param lockDeadline Time by which every lock the trigger DDL waits for must be granted
    * @param excludedTables Optional array of table names to exclude from write protection
    */
-  private async enableDestinationWriteProtection(excludedTables: string[] = []): Promise<void> {
+  private async enableDestinationWriteProtection(
+    client: PoolClient,
+    lockDeadline: number,
+    excludedTables: string[] = []
+  ): Promise<void> {
     const excludeMessage =
       excludedTables.length > 0 ? ` (excluding ${excludedTables.length} preserved tables)` : '';
     this.log(`🔒 Enabling write protection on destination database tables${excludeMessage}...`);
 
-    const client = await this.destPool.connect();
     try {
+      await client.query('BEGIN');
+
       // Create a function that blocks writes
+      await this.limitLockWait(client, lockDeadline);
       await client.query(`
         CREATE OR REPLACE FUNCTION migration_block_writes()
         RETURNS TRIGGER AS $$
@@ -2549,6 +5456,7 @@ export class DatabaseMigrator {
 
         const triggerName = `migration_write_block_${tableName}`;
 
+        await this.limitLockWait(client, lockDeadline);
         await client.query(`
           CREATE TRIGGER ${triggerName}
           BEFORE INSERT OR UPDATE OR DELETE ON "${tableName}"
@@ -2559,30 +5467,41 @@ export class DatabaseMigrator {
         this.log(`🔒 Write protection enabled for destination table: ${tableName}`);
       }
 
+      await client.query('COMMIT');
       const protectedCount = result.rows.length - excludedTables.length;
       this.log(`✅ Write protection enabled on ${protectedCount} destination tables`);
     } catch (error) {
-      this.logError('Failed to enable destination write protection', error);
+      await client.query('ROLLBACK');
+      if ((error as { code?: string }).code !== LOCK_NOT_AVAILABLE) {
+        this.logError('Failed to enable destination write protection', error);
+      }
       throw error;
-    } finally {
-      client.release();
     }
   }
 
   /**
    * Disable write protection on destination database tables to restore normal operations
+   * @param schemaName Schema holding the protected tables: after the swap they are in the backup
    */
-  private async disableDestinationWriteProtection(): Promise<void> {
+  private async disableDestinationWriteProtection(schemaName: string = 'public'): Promise<void> {
+    if (this.cutoverStrategy === 'lock') {
+      // No write-block triggers were created, and dropping them would lock every table
+      return;
+    }
+
     this.log('🔓 Removing write protection from destination database tables...');
 
     const client = await this.destPool.connect();
     try {
       // Get all user tables
-      const result = await client.query(`
+      const result = await client.query(
+        `
         SELECT tablename 
         FROM pg_tables 
-        WHERE schemaname = 'public'
-      `);
+        WHERE schemaname = $1
+      `,
+        [schemaName]
+      );
 
       // Drop triggers from all tables
       for (const row of result.rows) {
@@ -2590,7 +5509,9 @@ export class DatabaseMigrator {
         const triggerName = `migration_write_block_${tableName}`;
 
         try {
-          await client.query(`DROP TRIGGER IF EXISTS ${triggerName} ON "${tableName}";`);
+          await client.query(
+            `DROP TRIGGER IF EXISTS ${triggerName} ON "${schemaName}"."${tableName}";`
+          );
           this.log(`🔓 Write protection removed from destination table: ${tableName}`);
         } catch (error) {
           // Log but don't fail if trigger doesn't exist
@@ -2599,7 +5520,7 @@ export class DatabaseMigrator {
       }
 
       // Clean up the blocking function
-      await client.query('DROP FUNCTION IF EXISTS migration_block_writes();');
+      await client.query(`DROP FUNCTION IF EXISTS "${schemaName}".migration_block_writes();`);
 
       this.log('✅ Write protection removed from all destination tables');
     } catch (error) {
@@ -0,0 +1,266 @@
+/**
+ * Migration Events
+ *
+ * Typed progress events emitted by `DatabaseMigrator` and `DatabaseRollback`, so services that
+ * embed them can follow a migration without parsing log text. Console output is just one
+ * subscriber (`attachConsoleOutput`); logs can also be consumed as an async iterator.
+ */
+
+import { EventEmitter } from 'events';
+import { Logger, LogRecord } from './logger.js';
+import { DumpProgressStep } from './dump-progress.js';
+
+export type MigrationOperation = 'migrate' | 'prepare' | 'complete' | 'resume' | 'rollback';
+
+export interface LogEvent extends LogRecord {
+  /** The record as a text log line, as kept in the result's `logs` */
+  line: string;
+}
+
+export interface PhaseStartedEvent {
+  /** Phase number, 1-7 */
+  phase: number;
+  name: string;
+}
+
+export interface PhaseCompletedEvent {
+  phase: number;
+  name: string;
+  durationMs: number;
+}
+
+export interface PhaseSkippedEvent {
+  phase: number;
+  name: string;
+  /** Why the phase did not run, e.g. an existing checkpoint */
+  reason: string;
+}
+
+export interface TableRestoredEvent {
+  tableName: string;
+  rowCount: number;
+}
+
+export interface TableProgressEvent {
+  /** pg_dump or pg_restore run reporting the table */
+  step: DumpProgressStep;
+  database: string;
+  tableName: string;
+  status: 'running' | 'done';
+  durationMs?: number;
+  tablesDone: number;
+  tablesTotal: number;
+  /** Estimated percent of the run's table data copied, weighted by source table size */
+  percent: number;
+}
+
+export interface TriggerCreatedEvent {
+  tableName: string;
+  triggerName: string;
+  durationMs: number;
+}
+
+export interface SequenceResetEvent {
+  sequenceName: string;
+  tableName: string;
+  /** Next value the sequence will return */
+  value: number;
+  durationMs: number;
+}
+
+export interface IndexRecreatedEvent {
+  indexName: string;
+  tableName: string;
+  durationMs: number;
+}
+
+export interface SwapCompletedEvent {
+  backupSchema: string;
+  /** Time from the start of the committed schema rename transaction to its commit, mostly lock waits */
+  lockWaitMs: number;
+  /** Rename transactions run, including those that timed out waiting for locks */
+  attempts: number;
+  cutoverStrategy: 'triggers' | 'lock';
+  /**
+   * Time writes to public tables were unavailable: from creating the write-block triggers to
+   * dropping them, or the time the swap transactions held or waited for the table locks
+   */
+  writesBlockedMs: number;
+  durationMs: number;
+}
+
+/**
+ * A database session: one holding locks in the schemas being swapped, blocking the swap or
+ * reset after it
+ */
+export interface SwapBlocker {
+  pid: number;
+  user: string;
+  applicationName: string;
+  state: string;
+  /** Current or last query of the session, truncated */
+  query: string;
+  /** Age of the session's open transaction, null outside a transaction */
+  transactionAgeMs: number | null;
+  /** Granted locks, e.g. `AccessShareLock on public.User` */
+  locks: string[];
+}
+
+export interface SwapLockTimeoutEvent {
+  attempt: number;
+  lockTimeoutMs: number;
+  blockers: SwapBlocker[];
+  /** Delay before the next attempt, absent when the swap is abandoned */
+  retryInMs?: number;
+}
+
+export interface SwapBlockersEvent {
+  /** Sessions holding locks on public tables right before the swap */
+  blockers: SwapBlocker[];
+  /** Allowlisted sessions still blocking after the grace period, which were stopped */
+  stopped: SwapBlocker[];
+  /** How they were stopped, when a termination policy was set */
+  action?: 'cancel' | 'terminate';
+}
+
+export interface SessionsResetEvent {
+  mode: 'terminate' | 'notify';
+  /** Sessions terminated, or the allowlisted sessions that were connected when notifying */
+  sessions: SwapBlocker[];
+  /** Sessions still holding locks on backup schema relations when the wait ended */
+  lingering: SwapBlocker[];
+}
+
+export interface WarningEvent {
+  message: string;
+}
+
+export interface ErrorEvent {
+  message: string;
+  error: string;
+}
+
+export interface FinishedEvent {
+  operation: MigrationOperation;
+  success: boolean;
+  durationMs: number;
+  tablesProcessed: number;
+  recordsMigrated: number;
+  bytesTransferred: number;
+  warningCount: number;
+  errorCount: number;
+  error?: string;
+}
+
+/**
+ * Event names and payloads, in the tuple form expected by the typed `EventEmitter`
+ */
+export interface MigrationEventMap {
+  log: [LogEvent];
+  phaseStarted: [PhaseStartedEvent];
+  phaseCompleted: [PhaseCompletedEvent];
+  phaseSkipped: [PhaseSkippedEvent];
+  tableRestored: [TableRestoredEvent];
+  tableProgress: [TableProgressEvent];
+  triggerCreated: [TriggerCreatedEvent];
+  sequenceReset: [SequenceResetEvent];
+  indexRecreated: [IndexRecreatedEvent];
+  swapCompleted: [SwapCompletedEvent];
+  /** A schema rename transaction timed out waiting for locks */
+  swapLockTimeout: [SwapLockTimeoutEvent];
+  /** Sessions held locks on public tables before the swap */
+  swapBlockers: [SwapBlockersEvent];
+  /** Application sessions were reset after the swap */
+  sessionsReset: [SessionsResetEvent];
+  warning: [WarningEvent];
+  error: [ErrorEvent];
+  /** Emitted once when a migrator operation or a rollback ends, successfully or not */
+  finished: [FinishedEvent];
+}
+
+export const PHASE_NAMES: Record<number, string> = {
+  1: 'Create source dump',
+  2: 'Restore dump to shadow schema',
+  3: 'Set up preserved table sync',
+  4: 'Atomic schema swap',
+  5: 'Clean up sync triggers',
+  6: 'Reset sequences',
+  7: 'Recreate indexes',
+};
+
+/**
+ * Base class of the migrator and rollback event emitters
+ * `error` events are only emitted when someone listens, so an unobserved failure is reported
+ * through the operation's result instead of crashing the process.
+ */
+export class MigrationEventEmitter extends EventEmitter<MigrationEventMap> {
+  protected emitEvent<K extends keyof MigrationEventMap>(
+    eventName: K,
+    ...args: MigrationEventMap[K]
+  ): void {
+    if (eventName === 'error' && this.listenerCount('error') === 0) {
+      return;
+    }
+    (this.emit as (eventName: K, ...args: MigrationEventMap[K]) => boolean)(eventName, ...args);
+  }
+
+  /**
+   * Iterate over log events from now until the next `finished` event
+   * Listeners are attached immediately, so no line is missed between this call and the
+   * first `next()`; breaking out of the loop detaches them.
+   */
+  logs(): AsyncIterableIterator<LogEvent> {
+    const queue: LogEvent[] = [];
+    let finished = false;
+    let wake: (() => void) | undefined;
+
+    const onLog = (event: LogEvent) => {
+      queue.push(event);
+      wake?.();
+    };
+    const detach = () => {
+      this.off('log', onLog);
+      this.off('finished', onFinished);
+    };
+    const onFinished = () => {
+      finished = true;
+      detach();
+      wake?.();
+    };
+    this.on('log', onLog);
+    this.on('finished', onFinished);
+
+    const iterator: AsyncIterableIterator<LogEvent> = {
+      next: async () => {
+        while (queue.length === 0 && !finished) {
+          await new Promise<void>(resolve => (wake = resolve));
+        }
+        const value = queue.shift();
+        if (value) {
+          return { value, done: false };
+        }
+        detach();
+        return { value: undefined, done: true };
+      },
+      return: async () => {
+        detach();
+        finished = true;
+        queue.length = 0;
+        return { value: undefined, done: true };
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    };
+    return iterator;
+  }
+}
+
+/**
+ * Print log events to the console, as the CLI does
+ * @param logger Format and minimum level of the output (timestamped text by default)
+ */
+export function attachConsoleOutput(
+  emitter: MigrationEventEmitter,
+  logger: Logger = new Logger()
+): void {
+  emitter.on('log', event => logger.write(event));
+}
@@ -6,6 +6,7 @@
  */
 
 import { DatabaseMigrator } from './migration-core.js';
+import { attachConsoleOutput } from './migration-events.js';
 
 // Example 1: Basic migration
 async function basicMigration() {
@@ -26,6 +27,7 @@ async function basicMigration() {
   };
 
   const migrator = new DatabaseMigrator(sourceConfig, destConfig);
+  attachConsoleOutput(migrator);
   await migrator.migrate();
 }
 
@@ -50,6 +52,12 @@ async function migrationWithPreservedTables() {
 
   const migrator = new DatabaseMigrator(sourceConfig, destConfig, preservedTables);
 
+  // Report progress from typed events instead of log lines
+  migrator.on('phaseCompleted', ({ phase, name, durationMs }) => {
+    console.log(`Phase ${phase} (${name}) took ${durationMs}ms`);
+  });
+  migrator.on('warning', ({ message }) => console.warn(`Warning: ${message}`));
+
   await migrator.migrate();
 }
 
@@ -76,7 +84,15 @@ async function dryRunAnalysis() {
 
   const migrator = new DatabaseMigrator(sourceConfig, destConfig, preservedTables, dryRun);
 
+  // Consume the log as an async iterator while the migration runs
+  const printing = (async () => {
+    for await (const { line } of migrator.logs()) {
+      console.log(line);
+    }
+  })();
+
   await migrator.migrate();
+  await printing;
 }
 
 // Export examples for use in other scripts
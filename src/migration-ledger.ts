@@ -0,0 +1,365 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Migration Ledger
+ *
+ * Persists a record of every prepare/swap/rollback in a dedicated `migration_meta`
+ * schema on the destination database, so that separate CLI invocations can agree on
+ * which prepared migration the current `shadow` schema belongs to.
+ */
+
+import { Pool } from 'pg';
+import { SourceDumpMode } from './migration-core.js';
+
+export const LEDGER_SCHEMA = 'migration_meta';
+export const LEDGER_TABLE = `${LEDGER_SCHEMA}.migration_ledger`;
+export const CHECKPOINT_TABLE = `${LEDGER_SCHEMA}.migration_checkpoints`;
+
+export type MigrationLedgerStatus =
+  | 'preparing'
+  | 'prepared'
+  | 'superseded'
+  | 'swapping'
+  | 'completed'
+  | 'failed'
+  | 'rolled_back';
+
+/**
+ * CLI command that started a migration: `start` runs every phase, `prepare` stops before the swap
+ */
+export type MigrationCommand = 'start' | 'prepare';
+
+/**
+ * Durable checkpoints recorded for a migration, keyed by checkpoint name
+ * (e.g. `phase_2`, `sequence:"public"."User_id_seq"`, `index:user_email_idx`)
+ */
+export type MigrationCheckpoints = Map<string, Record<string, any>>;
+
+export interface MigrationLedgerEntry {
+  migrationId: string;
+  timestamp: number;
+  command: MigrationCommand;
+  sourceHost: string;
+  sourcePort: number;
+  sourceDatabase: string;
+  destDatabase: string;
+  preservedTables: string[];
+  /** Null for migrations recorded before the dump mode was tracked */
+  sourceDumpMode: SourceDumpMode | null;
+  status: MigrationLedgerStatus;
+  backupSchema: string | null;
+  error: string | null;
+  prepareStartedAt: Date | null;
+  preparedAt: Date | null;
+  swapStartedAt: Date | null;
+  completedAt: Date | null;
+  rolledBackAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface NewLedgerEntry {
+  migrationId: string;
+  timestamp: number;
+  command: MigrationCommand;
+  sourceHost: string;
+  sourcePort: number;
+  sourceDatabase: string;
+  destDatabase: string;
+  preservedTables: string[];
+  sourceDumpMode: SourceDumpMode;
+}
+
+/**
+ * Column that records when a migration entered a given status
+ */
+const STATUS_TIMESTAMP_COLUMNS: Partial<Record<MigrationLedgerStatus, string>> = {
+  preparing: 'prepare_started_at',
+  prepared: 'prepared_at',
+  swapping: 'swap_started_at',
+  completed: 'completed_at',
+  rolled_back: 'rolled_back_at',
+};
+
+export class MigrationLedger {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Create the ledger schema and table if they do not already exist
+   */
+  async ensureLedger(): Promise<void> {
+    await this.pool.query(`CREATE SCHEMA IF NOT EXISTS ${LEDGER_SCHEMA}`);
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS ${LEDGER_TABLE} (
+        migration_id TEXT PRIMARY KEY,
+        timestamp BIGINT NOT NULL,
+        command TEXT NOT NULL DEFAULT 'prepare',
+        source_host TEXT NOT NULL,
+        source_port INTEGER NOT NULL,
+        source_database TEXT NOT NULL,
+        dest_database TEXT NOT NULL,
+        preserved_tables TEXT[] NOT NULL DEFAULT '{}',
+        source_dump_mode TEXT,
+        status TEXT NOT NULL,
+        backup_schema TEXT,
+        error TEXT,
+        prepare_started_at TIMESTAMPTZ,
+        prepared_at TIMESTAMPTZ,
+        swap_started_at TIMESTAMPTZ,
+        completed_at TIMESTAMPTZ,
+        rolled_back_at TIMESTAMPTZ,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    // Ledgers created before the dump mode was recorded
+    await this.pool.query(
+      `ALTER TABLE ${LEDGER_TABLE} ADD COLUMN IF NOT EXISTS source_dump_mode TEXT`
+    );
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS ${CHECKPOINT_TABLE} (
+        migration_id TEXT NOT NULL REFERENCES ${LEDGER_TABLE} (migration_id) ON DELETE CASCADE,
+        checkpoint TEXT NOT NULL,
+        details JSONB NOT NULL DEFAULT '{}',
+        completed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY (migration_id, checkpoint)
+      )
+    `);
+  }
+
+  /**
+   * Check whether the ledger table exists (read paths must not create it)
+   */
+  async exists(): Promise<boolean> {
+    const result = await this.pool.query('SELECT to_regclass($1) IS NOT NULL AS exists', [
+      LEDGER_TABLE,
+    ]);
+    return result.rows[0].exists;
+  }
+
+  /**
+   * Record the start of a preparation. Any earlier prepared-but-unswapped migration is
+   * marked superseded, since a new prepare replaces the shadow schema it produced.
+   */
+  async recordPrepareStarted(entry: NewLedgerEntry): Promise<void> {
+    await this.ensureLedger();
+
+    await this.pool.query(
+      `UPDATE ${LEDGER_TABLE} SET status = 'superseded', updated_at = now()
+       WHERE status IN ('preparing', 'prepared') AND migration_id <> $1`,
+      [entry.migrationId]
+    );
+
+    await this.pool.query(
+      `
+      INSERT INTO ${LEDGER_TABLE} (
+        migration_id, timestamp, command, source_host, source_port, source_database,
+        dest_database, preserved_tables, source_dump_mode, status, prepare_started_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'preparing', now())
+      ON CONFLICT (migration_id) DO UPDATE SET
+        status = 'preparing',
+        error = NULL,
+        updated_at = now()
+    `,
+      [
+        entry.migrationId,
+        entry.timestamp,
+        entry.command,
+        entry.sourceHost,
+        entry.sourcePort,
+        entry.sourceDatabase,
+        entry.destDatabase,
+        entry.preservedTables,
+        entry.sourceDumpMode,
+      ]
+    );
+  }
+
+  /**
+   * Move a migration to a new status, stamping the matching phase timestamp.
+   * A resumed migration keeps the timestamp from when it first entered the status.
+   */
+  async updateStatus(
+    migrationId: string,
+    status: MigrationLedgerStatus,
+    details: { backupSchema?: string; error?: string } = {}
+  ): Promise<void> {
+    const timestampColumn = STATUS_TIMESTAMP_COLUMNS[status];
+    const assignments = ['status = $2', 'updated_at = now()'];
+    const params: unknown[] = [migrationId, status];
+
+    if (timestampColumn) {
+      assignments.push(`${timestampColumn} = COALESCE(${timestampColumn}, now())`);
+    }
+    if (details.backupSchema !== undefined) {
+      params.push(details.backupSchema);
+      assignments.push(`backup_schema = $${params.length}`);
+    }
+    if (details.error !== undefined) {
+      params.push(details.error);
+      assignments.push(`error = $${params.length}`);
+    }
+
+    await this.pool.query(
+      `UPDATE ${LEDGER_TABLE} SET ${assignments.join(', ')} WHERE migration_id = $1`,
+      params
+    );
+  }
+
+  /**
+   * Record that a phase or step of a migration completed, so it can be skipped on resume
+   */
+  async recordCheckpoint(
+    migrationId: string,
+    checkpoint: string,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    await this.pool.query(
+      `
+      INSERT INTO ${CHECKPOINT_TABLE} (migration_id, checkpoint, details)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (migration_id, checkpoint) DO UPDATE SET
+        details = EXCLUDED.details,
+        completed_at = now()
+    `,
+      [migrationId, checkpoint, JSON.stringify(details)]
+    );
+  }
+
+  /**
+   * Get all checkpoints recorded for a migration
+   */
+  async getCheckpoints(migrationId: string): Promise<MigrationCheckpoints> {
+    const checkpoints: MigrationCheckpoints = new Map();
+
+    const tableExists = await this.pool.query('SELECT to_regclass($1) IS NOT NULL AS exists', [
+      CHECKPOINT_TABLE,
+    ]);
+    if (!tableExists.rows[0].exists) {
+      return checkpoints;
+    }
+
+    const result = await this.pool.query(
+      `SELECT checkpoint, details FROM ${CHECKPOINT_TABLE}
+       WHERE migration_id = $1
+       ORDER BY completed_at`,
+      [migrationId]
+    );
+    for (const row of result.rows) {
+      checkpoints.set(row.checkpoint, row.details || {});
+    }
+    return checkpoints;
+  }
+
+  /**
+   * Mark the migration whose swap produced the given backup schema as rolled back
+   */
+  async markRolledBack(backupSchema: string): Promise<MigrationLedgerEntry | null> {
+    if (!(await this.exists())) {
+      return null;
+    }
+
+    const result = await this.pool.query(
+      `UPDATE ${LEDGER_TABLE}
+       SET status = 'rolled_back', rolled_back_at = now(), updated_at = now()
+       WHERE backup_schema = $1
+       RETURNING *`,
+      [backupSchema]
+    );
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Look up a migration by its ID
+   */
+  async getEntry(migrationId: string): Promise<MigrationLedgerEntry | null> {
+    return this.findOne('migration_id = $1', [migrationId]);
+  }
+
+  /**
+   * Look up a migration by the timestamp printed by the prepare command
+   */
+  async getEntryByTimestamp(timestamp: number): Promise<MigrationLedgerEntry | null> {
+    return this.findOne('timestamp = $1', [timestamp]);
+  }
+
+  /**
+   * Look up the migration whose swap produced the given backup schema
+   */
+  async getEntryByBackupSchema(backupSchema: string): Promise<MigrationLedgerEntry | null> {
+    return this.findOne('backup_schema = $1', [backupSchema]);
+  }
+
+  /**
+   * Get the most recently started migration
+   */
+  async getLatestEntry(): Promise<MigrationLedgerEntry | null> {
+    return this.findOne('TRUE', []);
+  }
+
+  /**
+   * Get the most recent migration whose swap completed and has not been rolled back
+   */
+  async getLatestSwap(): Promise<MigrationLedgerEntry | null> {
+    return this.findOne("status = 'completed' AND backup_schema IS NOT NULL", []);
+  }
+
+  /**
+   * Tag the shadow schema with the migration that produced it
+   */
+  async stampShadowSchema(migrationId: string): Promise<void> {
+    // COMMENT does not accept bind parameters, so escape the literal manually
+    const literal = migrationId.replace(/'/g, "''");
+    await this.pool.query(`COMMENT ON SCHEMA shadow IS '${literal}'`);
+  }
+
+  /**
+   * Read the migration ID the shadow schema was tagged with, if any
+   */
+  async getShadowSchemaStamp(): Promise<string | null> {
+    const result = await this.pool.query(`
+      SELECT obj_description(oid, 'pg_namespace') AS stamp
+      FROM pg_namespace
+      WHERE nspname = 'shadow'
+    `);
+    return result.rows[0]?.stamp ?? null;
+  }
+
+  private async findOne(where: string, params: unknown[]): Promise<MigrationLedgerEntry | null> {
+    if (!(await this.exists())) {
+      return null;
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM ${LEDGER_TABLE} WHERE ${where}
+       ORDER BY prepare_started_at DESC NULLS LAST, timestamp DESC
+       LIMIT 1`,
+      params
+    );
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  private mapRow(row: Record<string, any>): MigrationLedgerEntry {
+    return {
+      migrationId: row.migration_id,
+      timestamp: parseInt(row.timestamp),
+      command: row.command,
+      sourceHost: row.source_host,
+      sourcePort: row.source_port,
+      sourceDatabase: row.source_database,
+      destDatabase: row.dest_database,
+      preservedTables: row.preserved_tables || [],
+      sourceDumpMode: row.source_dump_mode,
+      status: row.status,
+      backupSchema: row.backup_schema,
+      error: row.error,
+      prepareStartedAt: row.prepare_started_at,
+      preparedAt: row.prepared_at,
+      swapStartedAt: row.swap_started_at,
+      completedAt: row.completed_at,
+      rolledBackAt: row.rolled_back_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
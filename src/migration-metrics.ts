@@ -0,0 +1,242 @@
+/**
+ * Migration Metrics
+ *
+ * Collects Prometheus metrics from the progress events of a migrator or rollback: phase
+ * durations, rows and bytes transferred, sync triggers, swap lock wait and warning/error
+ * counts. Metrics are rendered in the Prometheus text exposition format, either written to a
+ * file for the node_exporter textfile collector or served on `/metrics` while a command runs.
+ */
+
+import { createServer, Server } from 'http';
+import { renameSync, writeFileSync } from 'fs';
+import { MigrationEventEmitter } from './migration-events.js';
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type MetricType = 'gauge' | 'counter';
+
+type MetricLabels = Record<string, string>;
+
+interface MetricDefinition {
+  type: MetricType;
+  help: string;
+}
+
+interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/**
+ * Every metric this module exports, in rendering order
+ */
+const METRICS: Record<string, MetricDefinition> = {
+  pg_migration_phase_duration_seconds: {
+    type: 'gauge',
+    help: 'Duration of each completed migration phase',
+  },
+  pg_migration_dump_progress_percent: {
+    type: 'gauge',
+    help: 'Estimated percent of table data copied by the running pg_dump or pg_restore',
+  },
+  pg_migration_rows_migrated: {
+    type: 'gauge',
+    help: 'Rows restored into the destination shadow schema',
+  },
+  pg_migration_bytes_transferred: {
+    type: 'gauge',
+    help: 'Size of the dump restored into the destination, or bytes streamed into it',
+  },
+  pg_migration_tables_processed: {
+    type: 'gauge',
+    help: 'Tables migrated, or kept by a rollback',
+  },
+  pg_migration_sync_triggers_created_total: {
+    type: 'counter',
+    help: 'Sync triggers created for preserved tables',
+  },
+  pg_migration_sequences_reset_total: {
+    type: 'counter',
+    help: 'Sequences reset after the swap',
+  },
+  pg_migration_indexes_recreated_total: {
+    type: 'counter',
+    help: 'Indexes recreated after the swap',
+  },
+  pg_migration_swap_lock_wait_seconds: {
+    type: 'gauge',
+    help: 'Time the schema swap transaction waited for and held its locks',
+  },
+  pg_migration_swap_writes_blocked_seconds: {
+    type: 'gauge',
+    help: 'Time writes to public tables were unavailable during the schema swap',
+  },
+  pg_migration_swap_lock_timeouts_total: {
+    type: 'counter',
+    help: 'Schema rename attempts that timed out waiting for locks',
+  },
+  pg_migration_swap_blockers_stopped_total: {
+    type: 'counter',
+    help: 'Sessions canceled or terminated because they blocked the schema swap',
+  },
+  pg_migration_sessions_reset_total: {
+    type: 'counter',
+    help: 'Application sessions terminated or notified after the swap',
+  },
+  pg_migration_backup_lock_holders: {
+    type: 'gauge',
+    help: 'Sessions still holding locks on backup schema relations after the session reset',
+  },
+  pg_migration_warnings_total: {
+    type: 'counter',
+    help: 'Warnings logged',
+  },
+  pg_migration_errors_total: {
+    type: 'counter',
+    help: 'Errors logged',
+  },
+  pg_migration_operation_duration_seconds: {
+    type: 'gauge',
+    help: 'Duration of the last finished operation',
+  },
+  pg_migration_operation_success: {
+    type: 'gauge',
+    help: 'Whether the last finished operation succeeded (1) or failed (0)',
+  },
+  pg_migration_operation_finished_timestamp_seconds: {
+    type: 'gauge',
+    help: 'Unix time the last operation finished',
+  },
+};
+
+/**
+ * Escape a label value for the text exposition format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Prometheus metrics of the migrations and rollbacks it observes
+ */
+export class MigrationMetrics {
+  private labels: MetricLabels;
+  private samples = new Map<string, Map<string, MetricSample>>();
+
+  /**
+   * @param labels Labels added to every sample, e.g. the destination database
+   */
+  constructor(labels: MetricLabels = {}) {
+    this.labels = labels;
+  }
+
+  /**
+   * Update the metrics from a migrator's or rollback's events
+   */
+  observe(emitter: MigrationEventEmitter): void {
+    emitter.on('phaseCompleted', ({ phase, name, durationMs }) => {
+      this.set('pg_migration_phase_duration_seconds', durationMs / 1000, {
+        phase: phase.toString(),
+        name,
+      });
+    });
+    emitter.on('tableProgress', ({ step, database, percent }) => {
+      this.set('pg_migration_dump_progress_percent', percent, { step, database });
+    });
+    emitter.on('tableRestored', ({ rowCount }) => {
+      this.add('pg_migration_rows_migrated', rowCount);
+    });
+    emitter.on('triggerCreated', () => this.add('pg_migration_sync_triggers_created_total', 1));
+    emitter.on('sequenceReset', () => this.add('pg_migration_sequences_reset_total', 1));
+    emitter.on('indexRecreated', () => this.add('pg_migration_indexes_recreated_total', 1));
+    emitter.on('swapCompleted', ({ lockWaitMs, writesBlockedMs }) => {
+      this.set('pg_migration_swap_lock_wait_seconds', lockWaitMs / 1000);
+      this.set('pg_migration_swap_writes_blocked_seconds', writesBlockedMs / 1000);
+    });
+    emitter.on('swapLockTimeout', () => this.add('pg_migration_swap_lock_timeouts_total', 1));
+    emitter.on('swapBlockers', ({ stopped }) => {
+      this.add('pg_migration_swap_blockers_stopped_total', stopped.length);
+    });
+    emitter.on('sessionsReset', ({ sessions, lingering }) => {
+      this.add('pg_migration_sessions_reset_total', sessions.length);
+      this.set('pg_migration_backup_lock_holders', lingering.length);
+    });
+    emitter.on('warning', () => this.add('pg_migration_warnings_total', 1));
+    emitter.on('error', () => this.add('pg_migration_errors_total', 1));
+    emitter.on('finished', event => {
+      const operation = { operation: event.operation };
+      // The totals of the finished operation replace the running counts from events
+      this.set('pg_migration_rows_migrated', event.recordsMigrated);
+      this.set('pg_migration_bytes_transferred', event.bytesTransferred);
+      this.set('pg_migration_tables_processed', event.tablesProcessed);
+      this.set('pg_migration_operation_duration_seconds', event.durationMs / 1000, operation);
+      this.set('pg_migration_operation_success', event.success ? 1 : 0, operation);
+      this.set('pg_migration_operation_finished_timestamp_seconds', Date.now() / 1000, operation);
+    });
+  }
+
+  /**
+   * Render every metric with at least one sample in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const [name, definition] of Object.entries(METRICS)) {
+      const samples = this.samples.get(name);
+      if (!samples) {
+        continue;
+      }
+      lines.push(`# HELP ${name} ${definition.help}`, `# TYPE ${name} ${definition.type}`);
+      for (const sample of samples.values()) {
+        lines.push(`${name}${formatLabels(sample.labels)} ${sample.value}`);
+      }
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  /**
+   * Write the metrics for the node_exporter textfile collector
+   * The file is written next to its final path and renamed, so the collector never reads a
+   * partial file.
+   */
+  writeTextfile(path: string): void {
+    const temporaryPath = `${path}.${process.pid}.tmp`;
+    writeFileSync(temporaryPath, this.render(), 'utf8');
+    renameSync(temporaryPath, path);
+  }
+
+  private set(name: string, value: number, labels: MetricLabels = {}): void {
+    const sampleLabels = { ...this.labels, ...labels };
+    const key = formatLabels(sampleLabels);
+    const samples = this.samples.get(name) ?? new Map<string, MetricSample>();
+    samples.set(key, { labels: sampleLabels, value });
+    this.samples.set(name, samples);
+  }
+
+  private add(name: string, amount: number, labels: MetricLabels = {}): void {
+    const key = formatLabels({ ...this.labels, ...labels });
+    const current = this.samples.get(name)?.get(key)?.value ?? 0;
+    this.set(name, current + amount, labels);
+  }
+}
+
+/**
+ * HTTP server answering `GET /metrics` with the current metrics; call `listen()` to start it
+ */
+export function createMetricsServer(metrics: MigrationMetrics): Server {
+  return createServer((req, res) => {
+    if (req.method !== 'GET' || req.url?.split('?')[0] !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+    res.end(metrics.render());
+  });
+}
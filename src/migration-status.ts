@@ -0,0 +1,116 @@
+/**
+ * Migration Status
+ *
+ * Summarizes the destination's migration state (shadow schema, sync triggers, backups and
+ * the latest ledger entry) for the `status` command and the exported handler.
+ */
+
+import { Pool } from 'pg';
+import { DatabaseConfig } from './migration-core.js';
+import { MigrationLedger, MigrationLedgerEntry } from './migration-ledger.js';
+import { DUMP_PROGRESS_CHECKPOINT, DumpProgress } from './dump-progress.js';
+
+export interface MigrationStatus {
+  shadowSchemaExists: boolean;
+  shadowTableCount: number;
+  syncTriggerCount: number;
+  backupCount: number;
+  /** Backup schema names, newest first */
+  backupSchemas: string[];
+  /** Migration ID stamped on the shadow schema by the prepare that created it */
+  shadowMigrationId: string | null;
+  latestMigration: MigrationLedgerEntry | null;
+  /** Phase checkpoints (`phase_1`..`phase_7`) recorded for the latest migration */
+  completedPhases: string[];
+  /** Progress of the dump or restore of a prepare that has not finished Phase 2 */
+  dumpProgress: DumpProgress | null;
+  readyForSwap: boolean;
+  resumable: boolean;
+}
+
+/**
+ * Read the migration status of a destination database
+ */
+export async function getMigrationStatus(destConfig: DatabaseConfig): Promise<MigrationStatus> {
+  const pool = new Pool({
+    ...destConfig,
+    ssl: destConfig.ssl !== false ? { rejectUnauthorized: false } : false,
+  });
+
+  try {
+    const client = await pool.connect();
+
+    try {
+      // Check shadow schema
+      const shadowExists = await client.query(`
+        SELECT EXISTS (
+          SELECT 1 FROM information_schema.schemata
+          WHERE schema_name = 'shadow'
+        )
+      `);
+
+      // Count shadow tables
+      const shadowTables = await client.query(`
+        SELECT COUNT(*) as count
+        FROM information_schema.tables
+        WHERE table_schema = 'shadow'
+      `);
+
+      // Count sync triggers
+      const syncTriggers = await client.query(`
+        SELECT COUNT(*) as count
+        FROM information_schema.triggers
+        WHERE trigger_name LIKE 'sync_%_to_shadow_trigger'
+      `);
+
+      // Find backup schemas
+      const backupSchemas = await client.query(`
+        SELECT schema_name
+        FROM information_schema.schemata
+        WHERE schema_name LIKE 'backup_%'
+        ORDER BY schema_name DESC
+      `);
+
+      const shadowSchemaExists = shadowExists.rows[0].exists;
+      const shadowTableCount = parseInt(shadowTables.rows[0].count);
+      const syncTriggerCount = parseInt(syncTriggers.rows[0].count);
+
+      // Read the migration ledger to identify which prepare produced the shadow schema
+      const ledger = new MigrationLedger(pool);
+      const latestMigration = await ledger.getLatestEntry();
+      const shadowMigrationId = shadowSchemaExists ? await ledger.getShadowSchemaStamp() : null;
+      const preparedMigrationMatches =
+        latestMigration !== null &&
+        latestMigration.status === 'prepared' &&
+        latestMigration.migrationId === shadowMigrationId;
+      const checkpoints = latestMigration
+        ? await ledger.getCheckpoints(latestMigration.migrationId)
+        : new Map();
+      const completedPhases = [...checkpoints.keys()].filter(key => key.startsWith('phase_'));
+      const dumpProgress =
+        latestMigration?.status === 'preparing' && !checkpoints.has('phase_2')
+          ? ((checkpoints.get(DUMP_PROGRESS_CHECKPOINT) as DumpProgress | undefined) ?? null)
+          : null;
+
+      return {
+        shadowSchemaExists,
+        shadowTableCount,
+        syncTriggerCount,
+        backupCount: backupSchemas.rows.length,
+        backupSchemas: backupSchemas.rows.map((r: { schema_name: string }) => r.schema_name),
+        shadowMigrationId,
+        latestMigration,
+        completedPhases,
+        dumpProgress,
+        readyForSwap: shadowSchemaExists && shadowTableCount > 0 && preparedMigrationMatches,
+        resumable:
+          latestMigration !== null &&
+          ['preparing', 'swapping', 'failed'].includes(latestMigration.status),
+      };
+    } finally {
+      client.release();
+    }
+  } finally {
+    await pool.end();
+  }
+}
@@ -6,7 +6,24 @@
  */
 
 import { Pool, PoolClient } from 'pg';
+import { execa } from 'execa';
+import { rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { DatabaseConfig } from './migration-core.js';
+import { MigrationLedger } from './migration-ledger.js';
+import { DumpStorage, ObjectStorageConfig, StoredDumpObject } from './dump-storage.js';
+import { MigrationEventEmitter } from './migration-events.js';
+import { createLogRecord, describeError, formatLogRecord, LogFields, LogRecord } from './logger.js';
+import { withSpan } from './tracing.js';
+import { dropLateWriteCapture } from './late-writes.js';
+import {
+  describeFailedDelivery,
+  WebhookConfig,
+  WebhookEventType,
+  WebhookNotifier,
+  WebhookPayload,
+} from './webhooks.js';
 
 export interface BackupInfo {
   timestamp: string;
@@ -45,13 +62,36 @@ export interface BackupContents {
   totalSize: string;
 }
 
-export class DatabaseRollback {
+export interface RollbackOptions {
+  /** Webhooks notified when a rollback or backup cleanup completes or fails */
+  webhooks?: WebhookConfig;
+}
+
+/**
+ * Tallies of the rollback in progress, reported by its `finished` event
+ */
+interface RollbackCounts {
+  tablesKept: number;
+  rowsKept: number;
+  warnings: number;
+  errors: number;
+}
+
+export class DatabaseRollback extends MigrationEventEmitter {
   private pool: Pool;
   private config: DatabaseConfig;
+  private ledger: MigrationLedger;
+  private counts: RollbackCounts = { tablesKept: 0, rowsKept: 0, warnings: 0, errors: 0 };
+  private webhooks?: WebhookNotifier;
 
-  constructor(config: DatabaseConfig) {
+  constructor(config: DatabaseConfig, options: RollbackOptions = {}) {
+    super();
     this.config = config;
     this.pool = new Pool(config);
+    this.ledger = new MigrationLedger(this.pool);
+    if (options.webhooks && options.webhooks.urls.length > 0) {
+      this.webhooks = new WebhookNotifier(options.webhooks);
+    }
   }
 
   /**
@@ -115,7 +155,7 @@ export class DatabaseRollback {
                 size,
               });
             } catch (error) {
-              this.log(`⚠️  Could not get info for table ${tableName}: ${error}`);
+              this.warn(`Could not get info for table ${tableName}: ${error}`);
               tables.push({
                 tableName,
                 rowCount: 0,
@@ -151,7 +191,7 @@ export class DatabaseRollback {
             `✅ Found backup ${timestamp}: ${tables.length} tables, ${totalRows} total rows`
           );
         } catch (error) {
-          this.log(`⚠️  Could not analyze backup ${timestamp}: ${error}`);
+          this.warn(`Could not analyze backup ${timestamp}: ${error}`);
         }
       }
 
@@ -391,8 +431,55 @@ export class DatabaseRollback {
 
   /**
    * Perform rollback to specified backup
+   * Emits `finished` once the rollback succeeds or fails.
    */
   async rollback(backupTimestamp: string, keepTables: string[] = []): Promise<void> {
+    const startTime = Date.now();
+    this.counts = { tablesKept: 0, rowsKept: 0, warnings: 0, errors: 0 };
+    let failure: unknown;
+
+    try {
+      await withSpan(
+        'rollback',
+        {
+          'db.system': 'postgresql',
+          'migration.dest.database': this.config.database,
+          'migration.backup_schema': `backup_${backupTimestamp}`,
+        },
+        () => this.performRollback(backupTimestamp, keepTables)
+      );
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      const durationMs = Date.now() - startTime;
+      const error = failure === undefined ? undefined : describeError(failure);
+      this.emitEvent('finished', {
+        operation: 'rollback',
+        success: failure === undefined,
+        durationMs,
+        tablesProcessed: this.counts.tablesKept,
+        recordsMigrated: this.counts.rowsKept,
+        bytesTransferred: 0,
+        warningCount: this.counts.warnings,
+        errorCount: this.counts.errors,
+        error,
+      });
+      await this.notifyWebhooks(failure === undefined ? 'rollback.completed' : 'rollback.failed', {
+        operation: 'rollback',
+        error,
+        data: {
+          backupSchema: `backup_${backupTimestamp}`,
+          keepTables,
+          tablesKept: this.counts.tablesKept,
+          rowsKept: this.counts.rowsKept,
+          durationMs,
+        },
+      });
+    }
+  }
+
+  private async performRollback(backupTimestamp: string, keepTables: string[]): Promise<void> {
     this.log(`🔄 Starting rollback to backup ${backupTimestamp}...`);
 
     // Validate backup first
@@ -402,6 +489,21 @@ export class DatabaseRollback {
     }
 
     const schemaName = `backup_${backupTimestamp}`;
+
+    // Identify the migration that produced this backup, if it was recorded in the ledger
+    try {
+      const ledgerEntry = await this.ledger.getEntryByBackupSchema(schemaName);
+      if (ledgerEntry) {
+        this.log(
+          `📒 Backup ${schemaName} was created by migration ${ledgerEntry.migrationId} (source ${ledgerEntry.sourceHost}:${ledgerEntry.sourcePort}/${ledgerEntry.sourceDatabase}, status ${ledgerEntry.status})`
+        );
+      } else {
+        this.log(`ℹ️  Backup ${schemaName} has no migration ledger entry`);
+      }
+    } catch (error) {
+      this.warn(`Could not read migration ledger: ${error}`);
+    }
+
     const client = await this.pool.connect();
 
     try {
@@ -432,7 +534,8 @@ export class DatabaseRollback {
       await client.query('ALTER SCHEMA public RENAME TO shadow;');
       this.log('• Renamed current public schema to shadow');
 
-      // Step 3: Rename backup to public
+      // Step 3: Rename backup to public, whose writes are no longer late
+      await dropLateWriteCapture(client, schemaName);
       await client.query(`ALTER SCHEMA ${schemaName} RENAME TO public;`);
       this.log(`• Renamed backup schema to public`);
 
@@ -451,15 +554,24 @@ export class DatabaseRollback {
 
       this.log('\n✅ Rollback completed successfully!');
       this.log(`📦 Backup '${schemaName}' has been consumed`);
+
+      try {
+        const rolledBack = await this.ledger.markRolledBack(schemaName);
+        if (rolledBack) {
+          this.log(`📒 Marked migration ${rolledBack.migrationId} as rolled back in ledger`);
+        }
+      } catch (error) {
+        this.warn(`Could not record rollback in migration ledger: ${error}`);
+      }
     } catch (error) {
-      this.log('\n❌ Rollback failed, attempting to restore original state...');
+      this.logError('Rollback failed, attempting to restore original state', error);
 
       // Ensure foreign key constraints are re-enabled even on failure
       try {
         this.log('🔒 Re-enabling foreign key constraints after rollback error...');
         await client.query('SET session_replication_role = origin;');
       } catch (fkError) {
-        this.log(`⚠️  Warning: Could not re-enable foreign key constraints: ${fkError}`);
+        this.warn(`Could not re-enable foreign key constraints: ${fkError}`);
       }
 
       await this.recoverFromFailedRollback(client);
@@ -501,19 +613,26 @@ export class DatabaseRollback {
 
         if (shadowTableExists.rows[0].exists && publicTableExists.rows[0].exists) {
           // Clear the restored table and copy current data
-          await client.query(`DELETE FROM public."${tableName}"`);
-          await client.query(
-            `INSERT INTO public."${tableName}" SELECT * FROM shadow."${tableName}"`
-          );
+          await withSpan('copy kept table', { 'db.sql.table': tableName }, async () => {
+            await client.query(`DELETE FROM public."${tableName}"`);
+            await client.query(
+              `INSERT INTO public."${tableName}" SELECT * FROM shadow."${tableName}"`
+            );
+          });
 
           const countResult = await client.query(`SELECT COUNT(*) FROM public."${tableName}"`);
           const rowCount = parseInt(countResult.rows[0].count);
-          this.log(`  ✅ Copied ${rowCount} rows for table ${tableName}`);
+          this.log(`  ✅ Copied ${rowCount} rows for table ${tableName}`, { table: tableName });
+          this.counts.tablesKept++;
+          this.counts.rowsKept += rowCount;
+          this.emitEvent('tableRestored', { tableName, rowCount });
         } else {
-          this.log(`  ⚠️  Skipping ${tableName} - table not found in both schemas`);
+          this.warn(`Skipping ${tableName} - table not found in both schemas`, {
+            table: tableName,
+          });
         }
       } catch (error) {
-        this.log(`  ❌ Failed to copy table ${tableName}: ${error}`);
+        this.logError(`Failed to copy table ${tableName}`, error, { table: tableName });
       }
     }
   }
@@ -573,6 +692,7 @@ export class DatabaseRollback {
 
     const schemaName = `backup_${backupTimestamp}`;
     const client = await this.pool.connect();
+    let failure: unknown;
 
     try {
       // Check if backup exists
@@ -584,8 +704,70 @@ export class DatabaseRollback {
       // Drop the backup schema
       await client.query(`DROP SCHEMA IF EXISTS ${schemaName} CASCADE;`);
       this.log(`✅ Backup schema ${schemaName} removed`);
+    } catch (error) {
+      failure = error;
+      throw error;
     } finally {
       client.release();
+      await this.notifyWebhooks(failure === undefined ? 'cleanup.completed' : 'cleanup.failed', {
+        operation: 'cleanup',
+        error: failure === undefined ? undefined : describeError(failure),
+        data: { schemas: [schemaName] },
+      });
+    }
+  }
+
+  /**
+   * Export a backup schema to S3-compatible object storage as a custom-format dump
+   * The dump can be restored with pg_restore (it recreates the backup_<timestamp> schema)
+   */
+  async exportBackup(
+    backupTimestamp: string,
+    uri: string,
+    storageConfig: ObjectStorageConfig = {}
+  ): Promise<StoredDumpObject> {
+    const schemaName = `backup_${backupTimestamp}`;
+    this.log(`☁️  Exporting backup ${schemaName} to ${uri}...`);
+
+    const validation = await this.validateBackup(backupTimestamp);
+    if (!validation.isValid) {
+      throw new Error(`Cannot export invalid backup: ${validation.errors.join(', ')}`);
+    }
+
+    const dumpPath = join(tmpdir(), `${schemaName}_export_${Date.now()}.backup`);
+    const storage = new DumpStorage(storageConfig);
+    try {
+      await execa(
+        'pg_dump',
+        [
+          '--format',
+          'custom',
+          '--no-privileges',
+          '--no-owner',
+          '--schema',
+          schemaName,
+          '--host',
+          this.config.host,
+          '--port',
+          this.config.port.toString(),
+          '--username',
+          this.config.user,
+          '--dbname',
+          this.config.database,
+          '--file',
+          dumpPath,
+        ],
+        { env: { ...process.env, PGPASSWORD: this.config.password } }
+      );
+
+      const dumpObject = await storage.uploadDump(dumpPath, uri);
+      this.log(
+        `✅ Backup ${schemaName} exported to ${uri} (${dumpObject.sizeBytes} bytes, sha256 ${dumpObject.sha256})`
+      );
+      return dumpObject;
+    } finally {
+      storage.close();
+      rmSync(dumpPath, { force: true });
     }
   }
 
@@ -618,7 +800,58 @@ export class DatabaseRollback {
   /**
    * Logging helper
    */
-  private log(message: string): void {
-    console.log(`[${new Date().toISOString()}] ${message}`);
+  private log(message: string, fields: LogFields = {}): void {
+    const level = message.trimStart().startsWith('⚠️') ? 'warn' : 'info';
+    this.writeLog(createLogRecord(level, message, fields));
+  }
+
+  /**
+   * Log an error without interrupting the operation
+   */
+  private logError(message: string, error: unknown, fields: LogFields = {}): void {
+    const record = createLogRecord('error', message, fields, error);
+    this.counts.errors++;
+    this.writeLog(record);
+    this.emitEvent('error', { message: record.message, error: record.error ?? '' });
+  }
+
+  private writeLog(record: LogRecord): void {
+    this.emitEvent('log', { ...record, line: formatLogRecord(record) });
+  }
+
+  /**
+   * Log a warning
+   */
+  private warn(message: string, fields: LogFields = {}): void {
+    this.log(`⚠️  ${message}`, fields);
+    this.counts.warnings++;
+    this.emitEvent('warning', { message });
+  }
+
+  /**
+   * Send a rollback or cleanup event to the configured webhooks and log failed deliveries
+   */
+  private async notifyWebhooks(
+    event: WebhookEventType,
+    details: Pick<WebhookPayload, 'operation' | 'error' | 'data'>
+  ): Promise<void> {
+    if (!this.webhooks) {
+      return;
+    }
+
+    const deliveries = await this.webhooks.notify({
+      event,
+      occurredAt: new Date().toISOString(),
+      database: this.config.database,
+      success: details.error === undefined,
+      ...details,
+    });
+    for (const delivery of deliveries) {
+      if (delivery.delivered) {
+        this.log(`📨 Webhook ${event} delivered to ${new URL(delivery.url).host}`);
+      } else {
+        this.log(`⚠️  ${describeFailedDelivery(event, delivery)}`);
+      }
+    }
   }
 }
@@ -0,0 +1,223 @@
+/**
+ * Secret Providers
+ *
+ * Resolve database credentials from secret stores instead of raw connection URLs, so passwords
+ * never appear on the command line, in shell history or in logs. A secret holds either a
+ * PostgreSQL connection URL or an RDS-style JSON document
+ * (`{"username", "password", "host", "port", "dbname"}`).
+ */
+
+import { readFile } from 'fs/promises';
+import { GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { DatabaseConfig, parseDatabaseUrl } from './migration-core.js';
+
+/**
+ * A source of database secrets, selected with a `<name>:<reference>` prefix
+ */
+export interface SecretProvider {
+  readonly name: string;
+  /**
+   * Read the raw secret value (connection URL or JSON document) for a reference
+   */
+  getSecret(reference: string): Promise<string>;
+  /**
+   * Release any connections held by the provider
+   */
+  close?(): void;
+}
+
+export interface SecretsManagerProviderConfig {
+  /** Endpoint of a Secrets Manager compatible service, e.g. a local mock in tests */
+  endpoint?: string;
+  /** Region of the secrets (defaults to AWS_REGION, then us-east-1) */
+  region?: string;
+}
+
+/**
+ * Reads secrets from AWS Secrets Manager by ARN or name
+ */
+export class SecretsManagerSecretProvider implements SecretProvider {
+  readonly name = 'aws';
+  private config: SecretsManagerProviderConfig;
+  private client?: SecretsManagerClient;
+
+  constructor(config: SecretsManagerProviderConfig = {}) {
+    this.config = config;
+  }
+
+  async getSecret(reference: string): Promise<string> {
+    if (!this.client) {
+      this.client = new SecretsManagerClient({
+        endpoint: this.config.endpoint,
+        region: this.config.region || process.env.AWS_REGION || 'us-east-1',
+      });
+    }
+
+    const response = await this.client.send(new GetSecretValueCommand({ SecretId: reference }));
+    if (response.SecretString) {
+      return response.SecretString;
+    }
+    if (response.SecretBinary) {
+      return Buffer.from(response.SecretBinary).toString('utf8');
+    }
+    throw new Error(`Secret ${reference} has no value`);
+  }
+
+  /**
+   * Close the Secrets Manager client's connections
+   */
+  close(): void {
+    this.client?.destroy();
+  }
+}
+
+/**
+ * Reads secrets from environment variables, referenced by variable name
+ */
+export class EnvSecretProvider implements SecretProvider {
+  readonly name = 'env';
+
+  async getSecret(reference: string): Promise<string> {
+    const value = process.env[reference];
+    if (!value) {
+      throw new Error(`Environment variable ${reference} is not set`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Reads secrets from files, e.g. secrets mounted into a container
+ */
+export class FileSecretProvider implements SecretProvider {
+  readonly name = 'file';
+
+  async getSecret(reference: string): Promise<string> {
+    try {
+      return (await readFile(reference, 'utf8')).trim();
+    } catch (error) {
+      throw new Error(
+        `Could not read secret file ${reference}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Resolves secret references into database configurations through registered providers
+ *
+ * References are `<provider>:<reference>` (e.g. `env:SOURCE_DB`, `file:/run/secrets/dest-db`).
+ * Anything without a registered provider prefix, including Secrets Manager ARNs, goes to the
+ * default provider.
+ */
+export class SecretResolver {
+  private providers = new Map<string, SecretProvider>();
+  private defaultProvider: SecretProvider;
+
+  constructor(defaultProvider: SecretProvider, providers: SecretProvider[] = []) {
+    this.defaultProvider = defaultProvider;
+    for (const provider of [defaultProvider, ...providers]) {
+      this.register(provider);
+    }
+  }
+
+  /**
+   * Add a provider, replacing any provider registered under the same name
+   */
+  register(provider: SecretProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  async resolve(secretReference: string): Promise<DatabaseConfig> {
+    const separator = secretReference.indexOf(':');
+    const prefixedProvider =
+      separator > 0 ? this.providers.get(secretReference.slice(0, separator)) : undefined;
+    const provider = prefixedProvider ?? this.defaultProvider;
+    const reference = prefixedProvider ? secretReference.slice(separator + 1) : secretReference;
+
+    const secret = await provider.getSecret(reference);
+    return parseDatabaseSecret(secret, `${provider.name}:${reference}`);
+  }
+
+  /**
+   * Release the connections of every registered provider
+   */
+  close(): void {
+    for (const provider of this.providers.values()) {
+      provider.close?.();
+    }
+  }
+}
+
+/**
+ * Create a resolver with the built-in providers, defaulting to AWS Secrets Manager
+ */
+export function createSecretResolver(config: SecretsManagerProviderConfig = {}): SecretResolver {
+  return new SecretResolver(new SecretsManagerSecretProvider(config), [
+    new EnvSecretProvider(),
+    new FileSecretProvider(),
+  ]);
+}
+
+/**
+ * Parse a secret value (connection URL or RDS-style JSON) into a database configuration
+ * Error messages name the secret but never include its value.
+ */
+export function parseDatabaseSecret(secret: string, secretName: string): DatabaseConfig {
+  const value = secret.trim();
+  if (value.startsWith('postgres://') || value.startsWith('postgresql://')) {
+    return parseDatabaseUrl(value);
+  }
+
+  let fields: Record<string, unknown>;
+  try {
+    fields = JSON.parse(value);
+  } catch {
+    throw new Error(`Secret ${secretName} is neither a PostgreSQL URL nor a JSON document`);
+  }
+
+  if (typeof fields.url === 'string') {
+    return parseDatabaseSecret(fields.url, secretName);
+  }
+
+  const database = fields.dbname ?? fields.database;
+  for (const [field, fieldValue] of Object.entries({
+    host: fields.host,
+    username: fields.username,
+    password: fields.password,
+    dbname: database,
+  })) {
+    if (fieldValue === undefined || fieldValue === null || fieldValue === '') {
+      throw new Error(`Secret ${secretName} has no ${field}`);
+    }
+  }
+
+  const port = fields.port ? parseInt(String(fields.port)) : 5432;
+  const sslMode = typeof fields.sslmode === 'string' ? `?sslmode=${fields.sslmode}` : '';
+  // Reuse the URL rules for SSL defaults; the URL carries no credentials
+  const { ssl } = parseDatabaseUrl(`postgresql://${fields.host}:${port}/${database}${sslMode}`);
+
+  return {
+    host: String(fields.host),
+    port,
+    database: String(database),
+    user: String(fields.username),
+    password: String(fields.password),
+    ssl: typeof fields.ssl === 'boolean' ? fields.ssl : ssl,
+  };
+}
+
+/**
+ * Replace the password in a connection URL so the URL can be printed or logged
+ */
+export function redactDatabaseUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) {
+      parsed.password = '****';
+    }
+    return parsed.toString();
+  } catch {
+    return '<invalid connection URL>';
+  }
+}
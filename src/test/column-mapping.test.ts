@@ -0,0 +1,173 @@
+/**
+ * Tests for column mapping
+ *
+ * Resolves mappings over hand-written column definitions; copying drifted preserved tables
+ * through the resolved mapping is covered in migration.integration.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ColumnDefinition,
+  describeColumnMapping,
+  resolveColumnMapping,
+} from '../column-mapping.js';
+
+/**
+ * Nullable column without a default
+ */
+function column(name: string, type: string, extra: Partial<ColumnDefinition> = {}) {
+  const category = type === 'integer' ? 'N' : type === 'boolean' ? 'B' : 'S';
+  return {
+    name,
+    type,
+    category,
+    notNull: false,
+    hasDefault: false,
+    generated: false,
+    identity: '',
+    ...extra,
+  };
+}
+
+const PUBLIC_COLUMNS = [
+  column('id', 'integer', { notNull: true, identity: 'a' }),
+  column('name', 'text'),
+  column('age', 'text'),
+  column('legacy', 'text'),
+];
+
+describe('resolveColumnMapping', () => {
+  it('should match columns by name and require a cast for changed types', () => {
+    const plan = resolveColumnMapping(
+      'User',
+      PUBLIC_COLUMNS,
+      [
+        column('name', 'text'),
+        column('id', 'integer', { notNull: true, identity: 'a' }),
+        column('age', 'integer'),
+        column('name_length', 'integer', { generated: true }),
+      ],
+      { age: { cast: 'integer' } }
+    );
+
+    expect(plan.columns).toEqual([
+      { column: 'name', expression: '"name"', source: 'name', from: 'name' },
+      { column: 'id', expression: '"id"', source: 'name', from: 'id' },
+      { column: 'age', expression: '"age"::integer', source: 'cast', from: 'age', cast: 'integer' },
+    ]);
+    // Identity values are kept on insert and never updated
+    expect(plan.overridingSystemValue).toBe(true);
+    expect(plan.updateColumns.map(resolved => resolved.column)).toEqual(['name', 'age']);
+    expect(plan.unmappedPublicColumns).toEqual(['legacy']);
+    expect(plan.skippedShadowColumns).toEqual([]);
+
+    // Narrowing casts truncate and failing ones abort writes, so none is added implicitly
+    expect(() => resolveColumnMapping('User', PUBLIC_COLUMNS, [column('age', 'integer')])).toThrow(
+      'Column User.age changes type from text to integer - add a column mapping with a cast for it'
+    );
+    expect(() =>
+      resolveColumnMapping('User', PUBLIC_COLUMNS, [column('years', 'integer')], {
+        years: { from: 'age' },
+      })
+    ).toThrow(
+      'Column mapping for User.years: public column age is text and the shadow column is integer - add a cast'
+    );
+  });
+
+  it('should give new NOT NULL columns a default and leave the others alone', () => {
+    const plan = resolveColumnMapping('User', PUBLIC_COLUMNS, [
+      column('id', 'integer', { notNull: true }),
+      column('active', 'boolean', { notNull: true }),
+      column('nickname', 'character varying(32)', { notNull: true }),
+      column('role', 'text', { notNull: true, hasDefault: true }),
+      column('bio', 'text'),
+    ]);
+
+    expect(plan.columns.slice(1)).toEqual([
+      { column: 'active', expression: 'false::boolean', source: 'default' },
+      { column: 'nickname', expression: "''::character varying(32)", source: 'default' },
+    ]);
+    expect(plan.updateColumns.map(resolved => resolved.column)).toEqual(['id']);
+    expect(plan.skippedShadowColumns).toEqual(['role', 'bio']);
+    expect(plan.overridingSystemValue).toBe(false);
+    expect(() =>
+      resolveColumnMapping('User', PUBLIC_COLUMNS, [
+        column('location', 'point', { notNull: true, category: 'G' }),
+      ])
+    ).toThrow(
+      'Column User.location is new, NOT NULL and has no default - add a column mapping for it'
+    );
+  });
+
+  it('should apply renames, casts, constants and expressions', () => {
+    const plan = resolveColumnMapping(
+      'User',
+      PUBLIC_COLUMNS,
+      [
+        column('id', 'integer'),
+        column('full_name', 'text'),
+        column('age', 'smallint'),
+        column('status', 'text', { notNull: true }),
+        column('score', 'integer'),
+        column('note', 'text'),
+      ],
+      {
+        full_name: { from: 'name' },
+        age: { cast: 'smallint' },
+        status: { value: "it's active" },
+        score: { expression: 'length(legacy)', cast: 'integer' },
+        note: { value: null },
+      }
+    );
+
+    expect(describeColumnMapping(plan)).toEqual([
+      'id ← "id"',
+      'full_name ← "name" (rename)',
+      'age ← "age"::smallint (cast)',
+      "status ← 'it''s active' (constant)",
+      'score ← (length(legacy))::integer (expression)',
+      'note ← NULL (constant)',
+    ]);
+    expect(plan.unmappedPublicColumns).toEqual([]);
+  });
+
+  it('should only count whole identifiers as used by expressions', () => {
+    const plan = resolveColumnMapping(
+      'User',
+      [column('id', 'integer'), column('user_id', 'integer'), column('Name', 'text')],
+      [column('owner', 'integer'), column('label', 'text')],
+      {
+        owner: { expression: 'user_id + 0' },
+        label: { expression: `"Name" || ' id'` },
+      }
+    );
+
+    expect(plan.unmappedPublicColumns).toEqual(['id']);
+  });
+
+  it('should reject invalid mappings', () => {
+    const shadowColumns = [
+      column('id', 'integer'),
+      column('total', 'integer', { generated: true }),
+      column('email', 'text'),
+    ];
+
+    expect(() =>
+      resolveColumnMapping('User', PUBLIC_COLUMNS, shadowColumns, { missing: { value: 1 } })
+    ).toThrow('Column mapping for User.missing: no such shadow column');
+    expect(() =>
+      resolveColumnMapping('User', PUBLIC_COLUMNS, shadowColumns, {
+        email: { from: 'name', value: 'x' },
+      })
+    ).toThrow('Column mapping for User.email: from and value cannot be combined');
+    expect(() =>
+      resolveColumnMapping('User', PUBLIC_COLUMNS, shadowColumns, { email: { from: 'mail' } })
+    ).toThrow('Column mapping for User.email: no public column named mail');
+    expect(() =>
+      resolveColumnMapping('User', PUBLIC_COLUMNS, shadowColumns, { email: { cast: 'text' } })
+    ).toThrow('Column mapping for User.email: no public column named email');
+    expect(() =>
+      resolveColumnMapping('User', PUBLIC_COLUMNS, shadowColumns, { total: { value: 0 } })
+    ).toThrow('Column mapping for User.total: generated columns compute their own values');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Integration Tests for the HTTP control plane
+ *
+ * Runs a prepare job, status, a swap job and list through the control plane against real
+ * PostgreSQL databases; no other services are needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IncomingMessage, request as httpRequest } from 'http';
+import path from 'path';
+import { DbTestLoaderMulti } from './test-loader-multi.js';
+import { ControlPlaneServer, MigrationJob } from '../control-plane.js';
+import { MigrationHandlerResult } from '../handler.js';
+import { PreparationResult } from '../migration-core.js';
+import { BackupInfo } from '../rollback.js';
+
+const TOKEN = 'integration-test-token';
+
+describe('Control Plane Integration Tests', () => {
+  const testDbName = `test_control_plane_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  const testPgUser = process.env.TEST_PGUSER || 'postgres';
+  const testPgPassword = process.env.TEST_PGPASSWORD || 'postgres';
+  const testPgHost = process.env.TEST_PGHOST || 'localhost';
+  const testPgPort = process.env.TEST_PGPORT || '5432';
+  const baseUrl = `postgresql://${testPgUser}:${testPgPassword}@${testPgHost}:${testPgPort}/${testDbName}`;
+
+  const schemaPath = path.resolve(__dirname, 'simple_schema.prisma');
+  const fixturePath = path.resolve(__dirname, 'simple_fixture.json');
+
+  let multiLoader: DbTestLoaderMulti;
+  let server: ControlPlaneServer;
+  let serverUrl: string;
+
+  const call = <T>(method: string, route: string, body?: unknown): Promise<[number, T]> =>
+    new Promise((resolve, reject) => {
+      const req = httpRequest(
+        `${serverUrl}${route}`,
+        { method, headers: { Authorization: `Bearer ${TOKEN}` } },
+        (res: IncomingMessage) => {
+          let text = '';
+          res.setEncoding('utf8');
+          res.on('data', chunk => (text += chunk));
+          res.on('end', () => resolve([res.statusCode || 0, JSON.parse(text)]));
+        }
+      );
+      req.on('error', reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+
+  beforeEach(async () => {
+    multiLoader = new DbTestLoaderMulti(baseUrl, baseUrl, schemaPath);
+    multiLoader.initializeLoaders(fixturePath, fixturePath);
+    await multiLoader.createTestDatabases();
+    await multiLoader.setupDatabaseSchemas();
+
+    server = new ControlPlaneServer({ token: TOKEN, port: 0, host: '127.0.0.1' });
+    const address = await server.start();
+    serverUrl = `http://127.0.0.1:${address.port}`;
+  }, 30000);
+
+  afterEach(async () => {
+    try {
+      await server.stop();
+      await multiLoader.cleanupTestDatabases();
+    } catch (error) {
+      console.warn('Cleanup warning:', error);
+    }
+  }, 30000);
+
+  it('should prepare, report status, swap and list backups over HTTP', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+    const { sourceUrl, destUrl } = multiLoader.getConnectionInfo();
+
+    const [prepareStatus, prepareJob] = await call<MigrationJob>('POST', '/prepare', {
+      source: sourceUrl,
+      dest: destUrl,
+    });
+    expect(prepareStatus).toBe(202);
+
+    // A second job for the same destination is refused while the prepare runs
+    const [conflictStatus] = await call<MigrationJob>('POST', '/swap', { dest: destUrl });
+    expect(conflictStatus).toBe(409);
+
+    const prepared = (await server.waitForJob(prepareJob.id)) as MigrationJob;
+    expect(prepared.status).toBe('succeeded');
+    expect(prepared.logs.length).toBeGreaterThan(0);
+    const { timestamp } = prepared.result?.data as PreparationResult;
+
+    const [, status] = await call<MigrationHandlerResult>('POST', '/status', { dest: destUrl });
+    expect(status.data).toMatchObject({ readyForSwap: true });
+
+    const [swapStatus, swapJob] = await call<MigrationJob>('POST', '/swap', {
+      dest: destUrl,
+      timestamp,
+    });
+    expect(swapStatus).toBe(202);
+    expect(await server.waitForJob(swapJob.id)).toMatchObject({ status: 'succeeded' });
+
+    const [listStatus, listed] = await call<MigrationHandlerResult>('POST', '/list', {
+      dest: destUrl,
+    });
+    expect(listStatus).toBe(200);
+    expect((listed.data as BackupInfo[]).map(backup => backup.schemaName)).toContain(
+      `backup_${timestamp}`
+    );
+  }, 120000);
+});
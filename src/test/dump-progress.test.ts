@@ -0,0 +1,82 @@
+/**
+ * Tests for dump progress tracking
+ *
+ * Feeds recorded pg_dump and pg_restore `--verbose` output to the tracker; progress reported
+ * during real migrations is covered in migration.integration.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DumpProgressTracker } from '../dump-progress.js';
+
+const TABLE_SIZES = new Map([
+  ['User', 8192],
+  ['Post', 24576],
+]);
+
+describe('DumpProgressTracker', () => {
+  it('should follow a sequential pg_restore and weight percent by table size', () => {
+    const tracker = new DumpProgressTracker('restore', 'app', TABLE_SIZES, false);
+
+    expect(tracker.handleLine('pg_restore: creating TABLE "shadow.User"')).toEqual([]);
+    expect(tracker.handleLine('pg_restore: processing data for table "shadow.User"')).toEqual([
+      { tableName: 'User', status: 'running' },
+    ]);
+    expect(tracker.getProgress()).toMatchObject({ runningTables: ['User'], percent: 0 });
+
+    // Starting the next table finishes the previous one
+    expect(tracker.handleLine('pg_restore: processing data for table "shadow.Post"')).toEqual([
+      { tableName: 'User', status: 'done', durationMs: expect.any(Number) },
+      { tableName: 'Post', status: 'running' },
+    ]);
+    expect(tracker.getProgress()).toMatchObject({ tablesDone: 1, tablesTotal: 2, percent: 25 });
+
+    expect(tracker.handleLine('pg_restore: creating INDEX "shadow.post_title_idx"')).toEqual([
+      { tableName: 'Post', status: 'done', durationMs: expect.any(Number) },
+    ]);
+    expect(tracker.complete()).toEqual([]);
+    expect(tracker.getReport()).toMatchObject({
+      step: 'restore',
+      database: 'app',
+      tablesDone: 2,
+      percent: 100,
+      runningTables: [],
+      tables: [
+        { tableName: 'User', bytes: 8192, status: 'done' },
+        { tableName: 'Post', bytes: 24576, status: 'done' },
+      ],
+    });
+  });
+
+  it('should only finish tables of a parallel run when their item finishes', () => {
+    const tracker = new DumpProgressTracker('dump', 'source', TABLE_SIZES, true);
+
+    tracker.handleLine('pg_dump: dumping contents of table "public.User"');
+    tracker.handleLine('pg_dump: dumping contents of table "public.Post"');
+    expect(tracker.getProgress().runningTables).toEqual(['User', 'Post']);
+
+    expect(tracker.handleLine('pg_dump: finished item 3012 TABLE DATA Post')).toEqual([
+      { tableName: 'Post', status: 'done', durationMs: expect.any(Number) },
+    ]);
+    expect(tracker.getProgress()).toMatchObject({ runningTables: ['User'], percent: 75 });
+
+    expect(tracker.complete()).toEqual([
+      { tableName: 'User', status: 'done', durationMs: expect.any(Number) },
+    ]);
+  });
+
+  it('should count tables when sizes are unknown and collect error lines', () => {
+    const tracker = new DumpProgressTracker('restore', 'app', new Map(), true);
+
+    tracker.handleLine('pg_restore: launching item 3010 TABLE DATA User');
+    tracker.handleLine('pg_restore: launching item 3011 TABLE DATA Post');
+    tracker.handleLine('pg_restore: finished item 3010 TABLE DATA User');
+    tracker.handleLine('pg_restore: error: COPY failed for table "Post": disk full');
+    tracker.handleLine('pg_restore: detail: could not extend file');
+
+    expect(tracker.getProgress()).toMatchObject({ tablesDone: 1, tablesTotal: 2, percent: 50 });
+    expect(tracker.errorLines).toEqual([
+      'pg_restore: error: COPY failed for table "Post": disk full',
+      'pg_restore: detail: could not extend file',
+    ]);
+  });
+});
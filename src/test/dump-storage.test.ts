@@ -0,0 +1,158 @@
+/**
+ * Tests for DumpStorage
+ *
+ * Runs uploads and downloads against a small filesystem-backed fake of the S3 API, so the
+ * object storage round trip is tested offline through a custom endpoint.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DumpStorage, isS3Uri, parseS3Uri } from '../dump-storage.js';
+
+/**
+ * Serve PutObject, GetObject and HeadObject for path-style URLs from a directory
+ */
+function startFakeS3(rootDir: string): Promise<Server> {
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const objectPath = path.join(rootDir, decodeURIComponent((req.url || '/').split('?')[0]));
+    const metadataPath = `${objectPath}.__metadata.json`;
+
+    if (req.method === 'PUT') {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        const metadata = Object.fromEntries(
+          Object.entries(req.headers).filter(([name]) => name.startsWith('x-amz-meta-'))
+        );
+        fs.mkdirSync(path.dirname(objectPath), { recursive: true });
+        fs.writeFileSync(objectPath, Buffer.concat(chunks));
+        fs.writeFileSync(metadataPath, JSON.stringify(metadata));
+        res.writeHead(200, { ETag: '"fake-etag"' });
+        res.end();
+      });
+      return;
+    }
+
+    if (!fs.existsSync(objectPath)) {
+      res.writeHead(404, { 'Content-Type': 'application/xml' });
+      res.end(
+        req.method === 'HEAD'
+          ? undefined
+          : '<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>'
+      );
+      return;
+    }
+
+    const content = fs.readFileSync(objectPath);
+    const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+    res.writeHead(200, { 'Content-Length': content.length, ...metadata });
+    res.end(req.method === 'HEAD' ? undefined : content);
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('DumpStorage', () => {
+  let workDir: string;
+  let server: Server;
+  let storage: DumpStorage;
+
+  beforeAll(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dump-storage-test-'));
+    fs.mkdirSync(path.join(workDir, 'bucket-root'));
+    server = await startFakeS3(path.join(workDir, 'bucket-root'));
+
+    process.env.AWS_ACCESS_KEY_ID = 'test';
+    process.env.AWS_SECRET_ACCESS_KEY = 'test';
+    const { port } = server.address() as AddressInfo;
+    storage = new DumpStorage({ endpoint: `http://127.0.0.1:${port}` });
+  });
+
+  afterAll(async () => {
+    storage.close();
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('S3 URIs', () => {
+    it('should split bucket and key', () => {
+      expect(isS3Uri('s3://dumps/prod/dump.backup')).toBe(true);
+      expect(isS3Uri('/tmp/dump.backup')).toBe(false);
+      expect(parseS3Uri('s3://dumps/prod/dump.backup')).toEqual({
+        bucket: 'dumps',
+        key: 'prod/dump.backup',
+      });
+    });
+
+    it('should reject URIs without a key', () => {
+      expect(() => parseS3Uri('s3://dumps')).toThrow('Invalid S3 URI');
+    });
+  });
+
+  it('should upload a dump file and download it with a verified checksum', async () => {
+    const dumpPath = path.join(workDir, 'source_dump.backup');
+    fs.writeFileSync(dumpPath, 'PGDMP fake archive contents');
+
+    const uploaded = await storage.uploadDump(dumpPath, 's3://dumps/prod/source_dump.backup');
+    expect(uploaded).toMatchObject({
+      bucket: 'dumps',
+      key: 'prod/source_dump.backup',
+      sizeBytes: 27,
+      directory: false,
+    });
+    expect(uploaded.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(await storage.getDumpSize('s3://dumps/prod/source_dump.backup')).toBe(27);
+
+    const downloaded = await storage.downloadDump(
+      's3://dumps/prod/source_dump.backup',
+      path.join(workDir, 'downloaded_file')
+    );
+    expect(downloaded.localPath).toBe(path.join(workDir, 'downloaded_file.backup'));
+    expect(downloaded.checksumVerified).toBe(true);
+    expect(downloaded.object.sha256).toBe(uploaded.sha256);
+    expect(fs.readFileSync(downloaded.localPath, 'utf8')).toBe('PGDMP fake archive contents');
+  });
+
+  it('should round trip a directory-format dump as a tar archive', async () => {
+    const dumpDir = path.join(workDir, 'source_dump_dir');
+    fs.mkdirSync(dumpDir);
+    fs.writeFileSync(path.join(dumpDir, 'toc.dat'), 'table of contents');
+    fs.writeFileSync(path.join(dumpDir, '3001.dat.gz'), 'table data');
+
+    const uploaded = await storage.uploadDump(dumpDir, 's3://dumps/prod/source_dump_dir');
+    expect(uploaded.directory).toBe(true);
+
+    const downloaded = await storage.downloadDump(
+      's3://dumps/prod/source_dump_dir',
+      path.join(workDir, 'downloaded_dir')
+    );
+    expect(downloaded.localPath).toBe(path.join(workDir, 'downloaded_dir'));
+    expect(fs.readFileSync(path.join(downloaded.localPath, 'toc.dat'), 'utf8')).toBe(
+      'table of contents'
+    );
+    expect(fs.readFileSync(path.join(downloaded.localPath, '3001.dat.gz'), 'utf8')).toBe(
+      'table data'
+    );
+  });
+
+  it('should reject a download whose checksum does not match', async () => {
+    const dumpPath = path.join(workDir, 'tampered.backup');
+    fs.writeFileSync(dumpPath, 'original contents');
+    await storage.uploadDump(dumpPath, 's3://dumps/tampered.backup');
+
+    // Corrupt the stored object behind the fake server's back
+    fs.writeFileSync(path.join(workDir, 'bucket-root', 'dumps', 'tampered.backup'), 'corrupted');
+
+    await expect(
+      storage.downloadDump('s3://dumps/tampered.backup', path.join(workDir, 'tampered_download'))
+    ).rejects.toThrow('Checksum mismatch');
+  });
+
+  it('should report missing objects', async () => {
+    expect(await storage.getDumpSize('s3://dumps/missing.backup')).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for migration events
+ *
+ * Exercises the emitter base class shared by the migrator and rollback: the log iterator,
+ * unobserved error events and console output. Events emitted during real migrations are
+ * covered in migration.integration.test.ts.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  attachConsoleOutput,
+  MigrationEventEmitter,
+  MigrationEventMap,
+} from '../migration-events.js';
+import { createLogRecord, formatLogRecord, LogLevel } from '../logger.js';
+
+/**
+ * Emitter whose events are driven by the test
+ */
+class TestEmitter extends MigrationEventEmitter {
+  send<K extends keyof MigrationEventMap>(eventName: K, ...args: MigrationEventMap[K]): void {
+    this.emitEvent(eventName, ...args);
+  }
+
+  log(message: string, level: LogLevel = 'info'): void {
+    const record = createLogRecord(level, message);
+    this.send('log', { ...record, line: formatLogRecord(record) });
+  }
+
+  finish(): void {
+    this.send('finished', {
+      operation: 'migrate',
+      success: true,
+      durationMs: 5,
+      tablesProcessed: 1,
+      recordsMigrated: 2,
+      bytesTransferred: 1024,
+      warningCount: 0,
+      errorCount: 0,
+    });
+  }
+}
+
+describe('MigrationEventEmitter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should iterate over log events until the operation finishes', async () => {
+    const emitter = new TestEmitter();
+    const logs = emitter.logs();
+
+    // Lines logged before the first next() are buffered
+    emitter.log('first');
+    const collected = (async () => {
+      const messages: string[] = [];
+      for await (const event of logs) {
+        messages.push(event.message);
+      }
+      return messages;
+    })();
+    emitter.log('second');
+    await Promise.resolve();
+    emitter.log('third', 'error');
+    emitter.finish();
+    emitter.log('after finish');
+
+    expect(await collected).toEqual(['first', 'second', 'third']);
+    expect(emitter.listenerCount('log')).toBe(0);
+    expect(emitter.listenerCount('finished')).toBe(0);
+  });
+
+  it('should detach the iterator when the consumer stops early', async () => {
+    const emitter = new TestEmitter();
+    const logs = emitter.logs();
+    emitter.log('first');
+    emitter.log('second');
+
+    for await (const event of logs) {
+      expect(event.message).toBe('first');
+      break;
+    }
+
+    expect(emitter.listenerCount('log')).toBe(0);
+  });
+
+  it('should only emit error events that have a listener', () => {
+    const emitter = new TestEmitter();
+    expect(() => emitter.send('error', { message: 'failed', error: 'boom' })).not.toThrow();
+
+    const errors: string[] = [];
+    emitter.on('error', event => errors.push(event.error));
+    emitter.send('error', { message: 'failed', error: 'boom' });
+    expect(errors).toEqual(['boom']);
+  });
+
+  it('should print log lines to the console', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const emitter = new TestEmitter();
+    attachConsoleOutput(emitter);
+
+    emitter.log('working');
+    emitter.log('failed', 'error');
+
+    expect(log).toHaveBeenCalledWith(expect.stringMatching(/^\[.+\] working$/));
+    expect(error).toHaveBeenCalledWith(expect.stringMatching(/^\[.+\] ❌ failed$/));
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for migration metrics
+ *
+ * Drives the collector with synthetic events and checks the text exposition output, the
+ * textfile writer and the `/metrics` endpoint.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AddressInfo } from 'net';
+import { get, Server } from 'http';
+import { MigrationEventEmitter, MigrationEventMap } from '../migration-events.js';
+import {
+  createMetricsServer,
+  METRICS_CONTENT_TYPE,
+  MigrationMetrics,
+} from '../migration-metrics.js';
+
+/**
+ * Emitter whose events are driven by the test
+ */
+class TestEmitter extends MigrationEventEmitter {
+  send<K extends keyof MigrationEventMap>(eventName: K, ...args: MigrationEventMap[K]): void {
+    this.emitEvent(eventName, ...args);
+  }
+}
+
+/**
+ * Emit the events of a short successful migration
+ */
+function runMigration(emitter: TestEmitter): void {
+  emitter.send('phaseCompleted', {
+    phase: 2,
+    name: 'Restore dump to shadow schema',
+    durationMs: 1500,
+  });
+  emitter.send('tableProgress', {
+    step: 'restore',
+    database: 'app',
+    tableName: 'User',
+    status: 'done',
+    durationMs: 20,
+    tablesDone: 1,
+    tablesTotal: 2,
+    percent: 40,
+  });
+  emitter.send('tableRestored', { tableName: 'User', rowCount: 7 });
+  emitter.send('triggerCreated', {
+    tableName: 'User',
+    triggerName: 'sync_user_to_shadow_trigger',
+    durationMs: 3,
+  });
+  emitter.send('swapBlockers', {
+    blockers: [],
+    stopped: [
+      {
+        pid: 4242,
+        user: 'reporting',
+        applicationName: 'metabase',
+        state: 'idle in transaction',
+        query: 'SELECT 1',
+        transactionAgeMs: 60000,
+        locks: ['AccessShareLock on "User"'],
+      },
+    ],
+    action: 'terminate',
+  });
+  emitter.send('swapLockTimeout', { attempt: 1, lockTimeoutMs: 100, blockers: [], retryInMs: 5 });
+  emitter.send('swapCompleted', {
+    backupSchema: 'backup_1',
+    lockWaitMs: 250,
+    attempts: 2,
+    cutoverStrategy: 'lock',
+    writesBlockedMs: 400,
+    durationMs: 900,
+  });
+  emitter.send('sessionsReset', { mode: 'notify', sessions: [], lingering: [] });
+  emitter.send('warning', { message: '⚠️  careful' });
+  emitter.send('finished', {
+    operation: 'migrate',
+    success: true,
+    durationMs: 4000,
+    tablesProcessed: 2,
+    recordsMigrated: 10,
+    bytesTransferred: 2048,
+    warningCount: 1,
+    errorCount: 0,
+  });
+}
+
+describe('MigrationMetrics', () => {
+  let directory: string | undefined;
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+    if (server) {
+      await new Promise(resolve => server?.close(resolve));
+      server = undefined;
+    }
+  });
+
+  it('should render observed events in the text exposition format', () => {
+    const emitter = new TestEmitter();
+    const metrics = new MigrationMetrics({ database: 'app' });
+    expect(metrics.render()).toBe('');
+
+    metrics.observe(emitter);
+    runMigration(emitter);
+    const text = metrics.render();
+
+    expect(text).toContain('# TYPE pg_migration_phase_duration_seconds gauge');
+    expect(text).toContain(
+      'pg_migration_phase_duration_seconds{database="app",phase="2",name="Restore dump to shadow schema"} 1.5'
+    );
+    expect(text).toContain('pg_migration_dump_progress_percent{database="app",step="restore"} 40');
+    expect(text).toContain('pg_migration_rows_migrated{database="app"} 10');
+    expect(text).toContain('pg_migration_bytes_transferred{database="app"} 2048');
+    expect(text).toContain('pg_migration_sync_triggers_created_total{database="app"} 1');
+    expect(text).toContain('pg_migration_swap_lock_wait_seconds{database="app"} 0.25');
+    expect(text).toContain('pg_migration_swap_writes_blocked_seconds{database="app"} 0.4');
+    expect(text).toContain('pg_migration_swap_lock_timeouts_total{database="app"} 1');
+    expect(text).toContain('pg_migration_swap_blockers_stopped_total{database="app"} 1');
+    expect(text).toContain('pg_migration_backup_lock_holders{database="app"} 0');
+    expect(text).toContain('pg_migration_warnings_total{database="app"} 1');
+    expect(text).toContain('pg_migration_operation_success{database="app",operation="migrate"} 1');
+    expect(text).not.toContain('pg_migration_errors_total');
+  });
+
+  it('should escape label values', () => {
+    const emitter = new TestEmitter();
+    const metrics = new MigrationMetrics({ database: 'a"b\\c' });
+    metrics.observe(emitter);
+    emitter.send('triggerCreated', { tableName: 'User', triggerName: 't', durationMs: 1 });
+
+    expect(metrics.render()).toContain(
+      'pg_migration_sync_triggers_created_total{database="a\\"b\\\\c"} 1'
+    );
+  });
+
+  it('should write a textfile without leaving temporary files behind', () => {
+    directory = mkdtempSync(join(tmpdir(), 'metrics-test-'));
+    const path = join(directory, 'pg_migration.prom');
+    const emitter = new TestEmitter();
+    const metrics = new MigrationMetrics();
+    metrics.observe(emitter);
+    runMigration(emitter);
+
+    metrics.writeTextfile(path);
+
+    expect(readFileSync(path, 'utf8')).toBe(metrics.render());
+    expect(readdirSync(directory)).toEqual(['pg_migration.prom']);
+  });
+
+  it('should serve metrics on /metrics', async () => {
+    const emitter = new TestEmitter();
+    const metrics = new MigrationMetrics();
+    metrics.observe(emitter);
+    runMigration(emitter);
+    server = createMetricsServer(metrics);
+    await new Promise<void>(resolve => server?.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const fetchPath = (path: string) =>
+      new Promise<{ status: number; type?: string; body: string }>((resolve, reject) => {
+        get(`http://127.0.0.1:${port}${path}`, res => {
+          let body = '';
+          res.on('data', chunk => (body += chunk));
+          res.on('end', () =>
+            resolve({ status: res.statusCode || 0, type: res.headers['content-type'], body })
+          );
+        }).on('error', reject);
+      });
+
+    const response = await fetchPath('/metrics');
+    expect(response).toEqual({ status: 200, type: METRICS_CONTENT_TYPE, body: metrics.render() });
+    expect((await fetchPath('/')).status).toBe(404);
+  });
+});
@@ -176,4 +176,104 @@ describe('Migration CLI Integration Tests', () => {
     console.log('✅ Log file verification completed successfully');
     console.log(`Log file size: ${logContent.length} bytes`);
   }, 30000); // 30 second timeout for CLI execution
+
+  it('should write NDJSON output and log file with --log-format json', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const cwd = process.cwd();
+    const existingLogFiles = fs
+      .readdirSync(cwd)
+      .filter(file => file.startsWith('migration_') && file.endsWith('.log'));
+
+    const result = await execa(
+      'npx',
+      [
+        'tsx',
+        path.join(cwd, 'src', 'migration.ts'),
+        'start',
+        '--source',
+        sourceLoader.getConnectionInfo().url,
+        '--dest',
+        destLoader.getConnectionInfo().url,
+        '--log-format',
+        'json',
+      ],
+      { cwd, env: { ...process.env, NODE_ENV: 'test' } }
+    );
+
+    // Every stdout line is a JSON record, and no record contains the password
+    const records = result.stdout
+      .split('\n')
+      .filter(line => line.length > 0)
+      .map(line => JSON.parse(line));
+    expect(records.length).toBeGreaterThan(0);
+    expect(records.some(record => record.phase === 4 && record.migrationId)).toBe(true);
+    expect(result.stdout).not.toContain(`:${testPgPassword}@`);
+
+    const newLogFiles = fs
+      .readdirSync(cwd)
+      .filter(file => file.startsWith('migration_') && file.endsWith('.log'))
+      .filter(file => !existingLogFiles.includes(file));
+    expect(newLogFiles).toHaveLength(1);
+
+    const [summary, ...logRecords] = fs
+      .readFileSync(path.join(cwd, newLogFiles[0]), 'utf-8')
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(summary).toMatchObject({ message: 'Migration summary', outcome: 'SUCCESS' });
+    expect(logRecords.map(record => record.message)).toContain(
+      '🔄 Phase 4: Performing atomic schema swap...'
+    );
+  }, 30000);
+
+  it('should write Prometheus metrics with --metrics-file', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const cwd = process.cwd();
+    const metricsDir = fs.mkdtempSync(path.join(cwd, 'metrics-'));
+    const metricsFile = path.join(metricsDir, 'pg_migration.prom');
+
+    try {
+      await execa(
+        'npx',
+        [
+          'tsx',
+          path.join(cwd, 'src', 'migration.ts'),
+          'start',
+          '--source',
+          sourceLoader.getConnectionInfo().url,
+          '--dest',
+          destLoader.getConnectionInfo().url,
+          '--metrics-file',
+          metricsFile,
+        ],
+        { cwd, env: { ...process.env, NODE_ENV: 'test' } }
+      );
+
+      const metrics = fs.readFileSync(metricsFile, 'utf-8');
+      expect(metrics).toMatch(/pg_migration_phase_duration_seconds\{.*phase="4".*\} [\d.]+/);
+      expect(metrics).toMatch(/pg_migration_rows_migrated\{.*\} [1-9]\d*/);
+      expect(metrics).toMatch(/pg_migration_swap_lock_wait_seconds\{.*\} [\d.]+/);
+      expect(metrics).toMatch(/^pg_migration_operation_success\{.*operation="migrate"\} 1$/m);
+    } finally {
+      fs.rmSync(metricsDir, { recursive: true, force: true });
+    }
+  }, 30000);
 });
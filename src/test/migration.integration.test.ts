@@ -9,10 +9,31 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { setTimeout as sleep } from 'timers/promises';
+import { Client } from 'pg';
 import { DbTestLoaderMulti } from './test-loader-multi.js';
 import { DbTestLoader } from './test-loader.js';
-import { DatabaseMigrator, parseDatabaseUrl } from '../migration-core.js';
-import { DatabaseRollback } from '../rollback.js';
+import {
+  DatabaseConfig,
+  DatabaseMigrator,
+  PreparationResult,
+  parseDatabaseUrl,
+} from '../migration-core.js';
+import { BackupInfo, DatabaseRollback } from '../rollback.js';
+import { handler } from '../handler.js';
+import {
+  FinishedEvent,
+  SessionsResetEvent,
+  SwapBlockersEvent,
+  SwapCompletedEvent,
+  SwapLockTimeoutEvent,
+  TableProgressEvent,
+} from '../migration-events.js';
+import { verifyWebhookSignature, WebhookPayload } from '../webhooks.js';
+import { reconcileLateWrites } from '../late-writes.js';
 
 describe('Database Migration Integration Tests', () => {
   // Test database configuration
@@ -1072,6 +1093,1321 @@ describe('Database Migration Integration Tests', () => {
     console.log('✅ All error scenarios tested successfully');
   }, 90000); // Extended timeout for error testing
 
+  it('should record migrations in the ledger and refuse to swap stale or foreign shadow schemas', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+
+    // Prepare records a ledger entry and tags the shadow schema
+    const prepareResult = await new DatabaseMigrator(sourceConfig, destConfig, [
+      'User',
+    ]).prepareMigration();
+    expect(prepareResult.success).toBe(true);
+
+    const preparedEntries = await destLoader.executeQuery(
+      'SELECT * FROM migration_meta.migration_ledger WHERE migration_id = $1',
+      [prepareResult.migrationId]
+    );
+    expect(preparedEntries).toHaveLength(1);
+    expect(preparedEntries[0].status).toBe('prepared');
+    expect(preparedEntries[0].source_database).toBe(sourceConfig.database);
+    expect(preparedEntries[0].preserved_tables).toEqual(['User']);
+    expect(preparedEntries[0].prepared_at).not.toBeNull();
+
+    // Swapping with a timestamp from a different prepare is refused
+    const wrongTimestampResult = await new DatabaseMigrator(
+      sourceConfig,
+      destConfig
+    ).completeMigration([], prepareResult.timestamp + 1);
+    expect(wrongTimestampResult.success).toBe(false);
+    expect(wrongTimestampResult.error).toContain('refusing to swap a stale shadow schema');
+
+    // Swapping a shadow schema that was not produced by prepare is refused
+    await destLoader.executeQuery(`COMMENT ON SCHEMA shadow IS 'migration_foreign'`);
+    const foreignResult = await new DatabaseMigrator(sourceConfig, destConfig).completeMigration();
+    expect(foreignResult.success).toBe(false);
+    expect(foreignResult.error).toContain('refusing to swap a foreign shadow schema');
+
+    // Restore the tag; the swap picks up preserved tables and the timestamp from the ledger
+    await destLoader.executeQuery(`COMMENT ON SCHEMA shadow IS '${prepareResult.migrationId}'`);
+    const swapResult = await new DatabaseMigrator(sourceConfig, destConfig).completeMigration(
+      [],
+      prepareResult.timestamp
+    );
+    expect(swapResult.success).toBe(true);
+
+    const backupSchema = await destLoader.executeQuery(
+      'SELECT schema_name FROM information_schema.schemata WHERE schema_name = $1',
+      [`backup_${prepareResult.timestamp}`]
+    );
+    expect(backupSchema).toHaveLength(1);
+
+    const completedEntries = await destLoader.executeQuery(
+      'SELECT * FROM migration_meta.migration_ledger WHERE migration_id = $1',
+      [prepareResult.migrationId]
+    );
+    expect(completedEntries[0].status).toBe('completed');
+    expect(completedEntries[0].backup_schema).toBe(`backup_${prepareResult.timestamp}`);
+
+    // Sync triggers recorded at prepare time were removed from the backup schema
+    const leftoverTriggers = await destLoader.executeQuery(`
+      SELECT trigger_name FROM information_schema.triggers
+      WHERE trigger_name LIKE 'sync_%_to_shadow_trigger'
+    `);
+    expect(leftoverTriggers).toHaveLength(0);
+
+    // Rollback marks the ledger entry as rolled back
+    const rollback = new DatabaseRollback(destConfig);
+    await rollback.rollback(prepareResult.timestamp.toString());
+    await rollback.close();
+
+    const rolledBackEntries = await destLoader.executeQuery(
+      'SELECT * FROM migration_meta.migration_ledger WHERE migration_id = $1',
+      [prepareResult.migrationId]
+    );
+    expect(rolledBackEntries[0].status).toBe('rolled_back');
+    expect(rolledBackEntries[0].rolled_back_at).not.toBeNull();
+  }, 90000);
+
+  it('should resume interrupted preparation and swap from recorded checkpoints', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+
+    const prepareResult = await new DatabaseMigrator(sourceConfig, destConfig, [
+      'User',
+    ]).prepareMigration();
+    expect(prepareResult.success).toBe(true);
+
+    const preparedCheckpoints = await destLoader.executeQuery(
+      'SELECT checkpoint FROM migration_meta.migration_checkpoints WHERE migration_id = $1 ORDER BY checkpoint',
+      [prepareResult.migrationId]
+    );
+    expect(preparedCheckpoints.map((row: { checkpoint: string }) => row.checkpoint)).toEqual([
+      'phase_1',
+      'phase_2',
+      'phase_3',
+    ]);
+
+    // Simulate a prepare that stopped before Phase 3 finished
+    await destLoader.executeQuery(
+      `DELETE FROM migration_meta.migration_checkpoints WHERE migration_id = $1 AND checkpoint = 'phase_3'`,
+      [prepareResult.migrationId]
+    );
+    await destLoader.executeQuery(
+      `UPDATE migration_meta.migration_ledger SET status = 'preparing' WHERE migration_id = $1`,
+      [prepareResult.migrationId]
+    );
+
+    // Resume follows the dump mode recorded at prepare start and refuses a different one
+    const recordedEntries = await destLoader.executeQuery(
+      'SELECT source_dump_mode FROM migration_meta.migration_ledger WHERE migration_id = $1',
+      [prepareResult.migrationId]
+    );
+    expect(recordedEntries[0].source_dump_mode).toBe('move-tables');
+
+    const mismatchedResumeResult = await new DatabaseMigrator(sourceConfig, destConfig, [], false, {
+      sourceDumpMode: 'snapshot',
+    }).resumeMigration(prepareResult.timestamp);
+    expect(mismatchedResumeResult.success).toBe(false);
+    expect(mismatchedResumeResult.error).toContain(
+      'was started with source dump mode move-tables, not snapshot'
+    );
+
+    const resumePrepareResult = await new DatabaseMigrator(
+      sourceConfig,
+      destConfig
+    ).resumeMigration(prepareResult.timestamp);
+    expect(resumePrepareResult.success).toBe(true);
+    expect(resumePrepareResult.logs.join('\n')).toContain('Phases 1-2 already completed');
+
+    const resumedEntries = await destLoader.executeQuery(
+      'SELECT * FROM migration_meta.migration_ledger WHERE migration_id = $1',
+      [prepareResult.migrationId]
+    );
+    expect(resumedEntries[0].status).toBe('prepared');
+
+    // Resuming a migration started with prepare stops before the swap
+    const shadowTables = await destLoader.executeQuery(
+      `SELECT tablename FROM pg_tables WHERE schemaname = 'shadow'`
+    );
+    expect(shadowTables.length).toBeGreaterThan(0);
+
+    // Simulate a swap process that stopped right after marking the migration as swapping
+    await destLoader.executeQuery(
+      `UPDATE migration_meta.migration_ledger
+       SET status = 'swapping', swap_started_at = now()
+       WHERE migration_id = $1`,
+      [prepareResult.migrationId]
+    );
+
+    const resumeSwapResult = await new DatabaseMigrator(
+      {} as DatabaseConfig,
+      destConfig
+    ).resumeMigration();
+    expect(resumeSwapResult.success).toBe(true);
+    expect(resumeSwapResult.migrationId).toBe(prepareResult.migrationId);
+
+    const completedEntries = await destLoader.executeQuery(
+      'SELECT * FROM migration_meta.migration_ledger WHERE migration_id = $1',
+      [prepareResult.migrationId]
+    );
+    expect(completedEntries[0].status).toBe('completed');
+
+    const completedCheckpoints = await destLoader.executeQuery(
+      `SELECT checkpoint FROM migration_meta.migration_checkpoints
+       WHERE migration_id = $1 AND checkpoint LIKE 'phase_%'
+       ORDER BY checkpoint`,
+      [prepareResult.migrationId]
+    );
+    expect(completedCheckpoints.map((row: { checkpoint: string }) => row.checkpoint)).toEqual([
+      'phase_1',
+      'phase_2',
+      'phase_3',
+      'phase_4',
+      'phase_5',
+      'phase_6',
+      'phase_7',
+    ]);
+
+    // A completed migration cannot be resumed again
+    const resumeCompletedResult = await new DatabaseMigrator(
+      {} as DatabaseConfig,
+      destConfig
+    ).resumeMigration(prepareResult.timestamp);
+    expect(resumeCompletedResult.success).toBe(false);
+    expect(resumeCompletedResult.error).toContain('cannot be resumed');
+  }, 120000);
+
+  it('should dump the source by moving its tables to a shadow schema and back', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const result = await new DatabaseMigrator(sourceConfig, destConfig, [], false, {
+      sourceDumpMode: 'move-tables',
+    }).migrate();
+    expect(result.success).toBe(true);
+    expect(result.logs.some(log => log.includes('All source tables moved to shadow schema'))).toBe(
+      true
+    );
+
+    // The source tables are back in public, without the source shadow schema or write blocks
+    const sourceShadow = await sourceLoader.executeQuery(
+      `SELECT nspname FROM pg_namespace WHERE nspname = 'shadow'`
+    );
+    expect(sourceShadow).toHaveLength(0);
+    const writeBlocks = await sourceLoader.executeQuery(
+      "SELECT tgname FROM pg_trigger WHERE tgname LIKE 'migration_write_block_%'"
+    );
+    expect(writeBlocks).toHaveLength(0);
+
+    const destUsers = await destLoader.executeQuery('SELECT email FROM "User" ORDER BY email');
+    const sourceUsers = await sourceLoader.executeQuery('SELECT email FROM "User" ORDER BY email');
+    expect(destUsers).toEqual(sourceUsers);
+  }, 120000);
+
+  it('should dump the source from an exported snapshot without modifying it', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+
+    // Record every DDL change on the source while the migration runs
+    await sourceLoader.executeQuery(`
+      CREATE TABLE IF NOT EXISTS ddl_audit (command_tag TEXT, object_identity TEXT);
+      CREATE OR REPLACE FUNCTION audit_ddl() RETURNS event_trigger AS $$
+      DECLARE r RECORD;
+      BEGIN
+        FOR r IN SELECT * FROM pg_event_trigger_ddl_commands() LOOP
+          INSERT INTO ddl_audit VALUES (r.command_tag, r.object_identity);
+        END LOOP;
+      END;
+      $$ LANGUAGE plpgsql;
+      DROP EVENT TRIGGER IF EXISTS audit_ddl;
+      CREATE EVENT TRIGGER audit_ddl ON ddl_command_end EXECUTE FUNCTION audit_ddl();
+    `);
+
+    try {
+      const result = await new DatabaseMigrator(sourceConfig, destConfig, [], false, {
+        sourceDumpMode: 'snapshot',
+      }).migrate();
+      expect(result.success).toBe(true);
+      expect(result.logs.some(log => log.includes('Exported source snapshot'))).toBe(true);
+      expect(result.snapshotLsn).toMatch(/^[0-9A-F]+\/[0-9A-F]+$/);
+
+      const sourceDdl = await sourceLoader.executeQuery('SELECT * FROM ddl_audit');
+      expect(sourceDdl).toHaveLength(0);
+    } finally {
+      await sourceLoader.executeQuery(`
+        DROP EVENT TRIGGER IF EXISTS audit_ddl;
+        DROP FUNCTION IF EXISTS audit_ddl();
+        DROP TABLE IF EXISTS ddl_audit;
+      `);
+    }
+
+    // Source data was remapped to the destination shadow schema and swapped in
+    const destUsers = await destLoader.executeQuery('SELECT email FROM "User" ORDER BY email');
+    const sourceUsers = await sourceLoader.executeQuery('SELECT email FROM "User" ORDER BY email');
+    expect(destUsers).toEqual(sourceUsers);
+
+    // The staging database used for the remap was dropped
+    const stagingDatabases = await destLoader.executeQuery(
+      `SELECT datname FROM pg_database WHERE datname LIKE 'migration_staging_%'`
+    );
+    expect(stagingDatabases).toHaveLength(0);
+  }, 120000);
+
+  it('should block source writes during a snapshot dump when asked', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const result = await new DatabaseMigrator(sourceConfig, destConfig, [], false, {
+      sourceDumpMode: 'snapshot',
+      blockSourceWrites: true,
+    }).prepareMigration();
+    expect(result.success).toBe(true);
+    expect(
+      result.logs.some(log => log.includes('Write protection enabled on all source tables'))
+    ).toBe(true);
+
+    // The triggers were created after the snapshot export and dropped after the dump
+    const writeBlocks = "SELECT tgname FROM pg_trigger WHERE tgname LIKE 'migration_write_block_%'";
+    expect(await sourceLoader.executeQuery(writeBlocks)).toEqual([]);
+    expect(await destLoader.executeQuery(writeBlocks)).toEqual([]);
+  }, 120000);
+
+  it('should stream the source dump into the destination without a dump file', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+
+    const listDumpFiles = () =>
+      fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('source_dump_'));
+    const dumpFilesBefore = listDumpFiles();
+
+    const result = await new DatabaseMigrator(sourceConfig, destConfig, [], false, {
+      streamDump: true,
+    }).migrate();
+    expect(result.success).toBe(true);
+    expect(result.logs.some(log => log.includes('Streaming source dump'))).toBe(true);
+
+    // No intermediate dump file was written
+    expect(listDumpFiles()).toEqual(dumpFilesBefore);
+
+    const destUsers = await destLoader.executeQuery('SELECT email FROM "User" ORDER BY email');
+    const sourceUsers = await sourceLoader.executeQuery('SELECT email FROM "User" ORDER BY email');
+    expect(destUsers).toEqual(sourceUsers);
+  }, 120000);
+
+  it('should dump and restore a directory-format dump with parallel jobs', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+
+    const result = await new DatabaseMigrator(sourceConfig, destConfig, [], false, {
+      dumpFormat: 'directory',
+      dumpJobs: 2,
+      restoreJobs: 2,
+    }).migrate();
+    expect(result.success).toBe(true);
+    expect(
+      result.logs.some(log => log.includes('directory-format dump') && log.includes('2 parallel'))
+    ).toBe(true);
+    expect(
+      result.logs.some(log => log.includes('Restoring into') && log.includes('2 parallel'))
+    ).toBe(true);
+
+    const destUsers = await destLoader.executeQuery('SELECT email FROM "User" ORDER BY email');
+    const sourceUsers = await sourceLoader.executeQuery('SELECT email FROM "User" ORDER BY email');
+    expect(destUsers).toEqual(sourceUsers);
+  }, 120000);
+
+  it('should keep a dump and prepare another migration from it', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const invalidDumpPath = path.join(os.tmpdir(), `invalid_dump_${Date.now()}.backup`);
+    let keptDumpPath: string | undefined;
+
+    try {
+      const keptResult = await new DatabaseMigrator(sourceConfig, destConfig, [], false, {
+        keepDump: true,
+      }).prepareMigration();
+      expect(keptResult.success).toBe(true);
+
+      const keepLog = keptResult.logs.find(log => log.includes('Keeping dump file for reuse'));
+      keptDumpPath = keepLog?.split('Keeping dump file for reuse: ')[1];
+      if (!keptDumpPath) {
+        throw new Error('Kept dump path was not logged');
+      }
+      expect(fs.existsSync(keptDumpPath)).toBe(true);
+
+      // Restore the kept dump without dumping the source again
+      const reusedResult = await new DatabaseMigrator(sourceConfig, destConfig, [], false, {
+        fromDump: keptDumpPath,
+      }).prepareMigration();
+      expect(reusedResult.success).toBe(true);
+      expect(reusedResult.logs.some(log => log.includes('Phase 1 skipped'))).toBe(true);
+      expect(reusedResult.dumpMetadata).toMatchObject({
+        path: keptDumpPath,
+        sourceDatabase: sourceConfig.database,
+        schemaName: 'public',
+      });
+      expect(reusedResult.dumpMetadata?.tableCount).toBeGreaterThan(0);
+      expect(reusedResult.dumpMetadata?.serverVersion).not.toBe('unknown');
+      expect(fs.existsSync(keptDumpPath)).toBe(true);
+
+      const shadowUsers = await destLoader.executeQuery(
+        'SELECT email FROM shadow."User" ORDER BY email'
+      );
+      const sourceUsers = await sourceLoader.executeQuery(
+        'SELECT email FROM "User" ORDER BY email'
+      );
+      expect(shadowUsers).toEqual(sourceUsers);
+
+      // Archives that pg_restore cannot read are rejected before anything is restored
+      fs.writeFileSync(invalidDumpPath, 'not a dump');
+      const invalidResult = await new DatabaseMigrator(sourceConfig, destConfig, [], false, {
+        fromDump: invalidDumpPath,
+      }).prepareMigration();
+      expect(invalidResult.success).toBe(false);
+      expect(invalidResult.error).toMatch(/Invalid dump archive/);
+    } finally {
+      for (const filePath of [keptDumpPath, invalidDumpPath]) {
+        if (filePath) {
+          fs.rmSync(filePath, { recursive: true, force: true });
+        }
+      }
+    }
+  }, 120000);
+
+  it('should run prepare, status, swap and list through the exported handler', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const prepared = await handler({
+      command: 'prepare',
+      source: expectedSourceUrl,
+      dest: expectedDestUrl,
+    });
+    expect(prepared.success).toBe(true);
+    const { timestamp } = prepared.data as PreparationResult;
+
+    const status = await handler({ command: 'status', dest: expectedDestUrl });
+    expect(status.success).toBe(true);
+    expect(status.data).toMatchObject({ readyForSwap: true, resumable: false });
+
+    const swapped = await handler({ command: 'swap', dest: expectedDestUrl, timestamp });
+    expect(swapped.success).toBe(true);
+
+    const listed = await handler({ command: 'list', dest: expectedDestUrl });
+    expect(listed.success).toBe(true);
+    expect((listed.data as BackupInfo[]).map(backup => backup.schemaName)).toContain(
+      `backup_${timestamp}`
+    );
+
+    const destUsers = await destLoader.executeQuery('SELECT email FROM "User" ORDER BY email');
+    const sourceUsers = await sourceLoader.executeQuery('SELECT email FROM "User" ORDER BY email');
+    expect(destUsers).toEqual(sourceUsers);
+  }, 120000);
+
+  it('should emit typed progress events while migrating', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const eventMigrator = new DatabaseMigrator(
+      parseDatabaseUrl(expectedSourceUrl),
+      parseDatabaseUrl(expectedDestUrl),
+      ['User']
+    );
+    const completedPhases: number[] = [];
+    const restoredTables: string[] = [];
+    const triggers: string[] = [];
+    const finished: FinishedEvent[] = [];
+    const restoreProgress: TableProgressEvent[] = [];
+    eventMigrator.on('phaseCompleted', event => completedPhases.push(event.phase));
+    eventMigrator.on('tableProgress', event => {
+      if (event.step === 'restore' && event.status === 'done') {
+        restoreProgress.push(event);
+      }
+    });
+    eventMigrator.on('tableRestored', event => restoredTables.push(event.tableName));
+    eventMigrator.on('triggerCreated', event => triggers.push(event.triggerName));
+    eventMigrator.on('finished', event => finished.push(event));
+
+    const lines: string[] = [];
+    const collecting = (async () => {
+      for await (const logEvent of eventMigrator.logs()) {
+        lines.push(logEvent.line);
+      }
+    })();
+
+    const result = await eventMigrator.migrate();
+    await collecting;
+
+    expect(result.success).toBe(true);
+    expect(completedPhases).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(restoredTables).toContain('User');
+    expect(triggers).toEqual(['sync_user_to_shadow_trigger']);
+    expect(finished).toEqual([expect.objectContaining({ operation: 'migrate', success: true })]);
+    expect(restoreProgress.map(event => event.tableName)).toContain('User');
+    expect(restoreProgress[restoreProgress.length - 1]).toMatchObject({ percent: 100 });
+    expect(result.stats.dumpProgress.map(report => report.step)).toContain('restore');
+    // The iterator also yields the connection cleanup lines logged after the result is built
+    expect(lines.slice(0, result.logs.length)).toEqual(result.logs);
+  }, 120000);
+
+  it('should notify webhooks of prepare, swap and rollback', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const received: { payload: WebhookPayload; signature?: string; body: string }[] = [];
+    const receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({
+          payload: JSON.parse(body),
+          signature: req.headers['x-migration-signature'] as string | undefined,
+          body,
+        });
+        res.writeHead(200);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    const webhooks = {
+      urls: [`http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`],
+      secret: 'webhook-secret',
+    };
+
+    try {
+      const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+      const destConfig = parseDatabaseUrl(expectedDestUrl);
+      const preparation = await new DatabaseMigrator(sourceConfig, destConfig, ['User'], false, {
+        webhooks,
+      }).prepareMigration();
+      expect(preparation.success).toBe(true);
+
+      const swap = await new DatabaseMigrator({} as DatabaseConfig, destConfig, ['User'], false, {
+        webhooks,
+      }).completeMigration();
+      expect(swap.success).toBe(true);
+      // The delivery outcome is part of the returned logs, and so of the log file
+      expect(swap.logs.some(log => log.includes('Webhook swap.completed delivered to'))).toBe(true);
+
+      const rollback = new DatabaseRollback(destConfig, { webhooks });
+      try {
+        await rollback.rollback(preparation.timestamp.toString());
+      } finally {
+        await rollback.close();
+      }
+
+      expect(received.map(request => request.payload.event)).toEqual([
+        'prepare.started',
+        'prepare.completed',
+        'swap.completed',
+        'rollback.completed',
+      ]);
+      for (const request of received) {
+        expect(verifyWebhookSignature(request.body, request.signature, webhooks.secret)).toBe(true);
+        expect(request.payload.database).toBe(expectedDestDb);
+      }
+      expect(received[1].payload).toMatchObject({
+        operation: 'prepare',
+        migrationId: preparation.migrationId,
+        success: true,
+        data: { timestamp: preparation.timestamp, activeTriggers: ['User'] },
+      });
+      expect(received[2].payload).toMatchObject({
+        operation: 'complete',
+        migrationId: preparation.migrationId,
+        data: { recordsMigrated: swap.stats.recordsMigrated },
+      });
+      expect(received[3].payload.data).toMatchObject({
+        backupSchema: `backup_${preparation.timestamp}`,
+      });
+    } finally {
+      await new Promise(resolve => receiver.close(resolve));
+    }
+  }, 120000);
+
+  it('should abandon a blocked schema swap and leave the migration prepared', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const preparation = await new DatabaseMigrator(sourceConfig, destConfig, [
+      'User',
+    ]).prepareMigration();
+    expect(preparation.success).toBe(true);
+
+    // An open transaction that modified the public schema blocks its rename until it ends
+    const blocker = new Client({ connectionString: expectedDestUrl });
+    await blocker.connect();
+    try {
+      const blockerPid: number = (await blocker.query('SELECT pg_backend_pid() AS pid')).rows[0]
+        .pid;
+      await blocker.query('BEGIN');
+      await blocker.query('ALTER SCHEMA public RENAME TO public_blocked');
+      await blocker.query('ALTER SCHEMA public_blocked RENAME TO public');
+
+      const timeouts: SwapLockTimeoutEvent[] = [];
+      const blockedMigrator = new DatabaseMigrator(
+        {} as DatabaseConfig,
+        destConfig,
+        ['User'],
+        false,
+        {
+          swapLockTimeoutMs: 300,
+          swapRetries: 1,
+          swapDeadlineMs: 10000,
+        }
+      );
+      blockedMigrator.on('swapLockTimeout', event => timeouts.push(event));
+      const blocked = await blockedMigrator.completeMigration();
+
+      expect(blocked.success).toBe(false);
+      expect(blocked.error).toContain('Schema swap abandoned after 2 attempts');
+      expect(timeouts.map(event => event.attempt)).toEqual([1, 2]);
+      expect(timeouts[0].retryInMs).toBeGreaterThan(0);
+      expect(timeouts[1].retryInMs).toBeUndefined();
+      expect(timeouts[0].blockers.map(session => session.pid)).toContain(blockerPid);
+
+      // Nothing was renamed and the sync triggers are still in place for the next attempt
+      const schemas = await destLoader.executeQuery(
+        `SELECT schema_name FROM information_schema.schemata
+         WHERE schema_name IN ('public', 'shadow', $1) ORDER BY schema_name`,
+        [`backup_${preparation.timestamp}`]
+      );
+      expect(schemas.map(row => row.schema_name)).toEqual(['public', 'shadow']);
+      // Each failed attempt dropped its write-block triggers before backing off
+      const writeBlocks = await destLoader.executeQuery(
+        "SELECT tgname FROM pg_trigger WHERE tgname LIKE 'migration_write_block_%'"
+      );
+      expect(writeBlocks).toEqual([]);
+      const ledger = await destLoader.executeQuery(
+        'SELECT status, error FROM migration_meta.migration_ledger WHERE migration_id = $1',
+        [preparation.migrationId]
+      );
+      expect(ledger[0].status).toBe('prepared');
+      expect(ledger[0].error).toContain('abandoned');
+    } finally {
+      await blocker.query('ROLLBACK');
+      await blocker.end();
+    }
+
+    // Once the blocking transaction is gone the swap goes through
+    const swap = await new DatabaseMigrator({} as DatabaseConfig, destConfig, ['User'], false, {
+      swapLockTimeoutMs: 300,
+    }).completeMigration();
+    expect(swap.success).toBe(true);
+  }, 120000);
+
+  it('should terminate allowlisted sessions holding locks before the swap', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const preparation = await new DatabaseMigrator(sourceConfig, destConfig, [
+      'User',
+    ]).prepareMigration();
+    expect(preparation.success).toBe(true);
+
+    // A reporting session left idle in a transaction that read a public table
+    const reporting = new Client({
+      connectionString: expectedDestUrl,
+      application_name: 'reporting',
+    });
+    reporting.on('error', () => {});
+    await reporting.connect();
+    const reportingPid: number = (await reporting.query('SELECT pg_backend_pid() AS pid')).rows[0]
+      .pid;
+    await reporting.query('BEGIN');
+    await reporting.query('SELECT count(*) FROM "User"');
+
+    try {
+      const events: SwapBlockersEvent[] = [];
+      const migrator = new DatabaseMigrator({} as DatabaseConfig, destConfig, ['User'], false, {
+        terminateBlockers: { applications: ['reporting'], gracePeriodMs: 200 },
+      });
+      migrator.on('swapBlockers', event => events.push(event));
+      const swap = await migrator.completeMigration();
+
+      expect(swap.success).toBe(true);
+      expect(events).toHaveLength(1);
+      expect(events[0].action).toBe('terminate');
+      expect(events[0].blockers.map(blocker => blocker.pid)).toContain(reportingPid);
+      expect(events[0].stopped).toMatchObject([
+        { pid: reportingPid, applicationName: 'reporting', state: 'idle in transaction' },
+      ]);
+      expect(events[0].stopped[0].locks.join()).toContain('AccessShareLock');
+
+      const sessions = await destLoader.executeQuery(
+        'SELECT pid FROM pg_stat_activity WHERE pid = $1',
+        [reportingPid]
+      );
+      expect(sessions).toHaveLength(0);
+    } finally {
+      await reporting.end().catch(() => {});
+    }
+  }, 120000);
+
+  it('should swap with the lock cutover without write-block triggers', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const migrator = new DatabaseMigrator(sourceConfig, destConfig, ['User'], false, {
+      cutoverStrategy: 'lock',
+    });
+    const swaps: SwapCompletedEvent[] = [];
+    migrator.on('swapCompleted', event => swaps.push(event));
+    const logs: string[] = [];
+    migrator.on('log', ({ message }) => logs.push(message));
+
+    const result = await migrator.migrate();
+
+    expect(result.success).toBe(true);
+    expect(swaps).toHaveLength(1);
+    expect(swaps[0].cutoverStrategy).toBe('lock');
+    expect(swaps[0].writesBlockedMs).toBeGreaterThanOrEqual(0);
+    expect(swaps[0].writesBlockedMs).toBeLessThanOrEqual(swaps[0].durationMs);
+    expect(logs.some(message => /Locked \d+ public tables against writes/.test(message))).toBe(
+      true
+    );
+
+    const writeBlockTriggers = await destLoader.executeQuery(`
+      SELECT tgname FROM pg_trigger WHERE tgname LIKE 'migration_write_block_%'
+    `);
+    expect(writeBlockTriggers).toHaveLength(0);
+  }, 120000);
+
+  it('should bound all lock waits of a swap attempt by its lock timeout', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const preparation = await new DatabaseMigrator(sourceConfig, destConfig, [
+      'User',
+    ]).prepareMigration();
+    expect(preparation.success).toBe(true);
+
+    // Writers on two tables: the first lets go partway through the attempt, the second never
+    const holdLock = async (table: string) => {
+      const client = new Client({ connectionString: expectedDestUrl });
+      await client.connect();
+      await client.query('BEGIN');
+      await client.query(`LOCK TABLE "${table}" IN ROW EXCLUSIVE MODE`);
+      return client;
+    };
+    const commentWriter = await holdLock('Comment');
+    const userWriter = await holdLock('User');
+
+    try {
+      const migrator = new DatabaseMigrator({} as DatabaseConfig, destConfig, ['User'], false, {
+        cutoverStrategy: 'lock',
+        swapLockTimeoutMs: 2000,
+        swapRetries: 0,
+      });
+      const startedAt = Date.now();
+      let timedOutAfterMs = 0;
+      migrator.on('swapLockTimeout', () => (timedOutAfterMs = Date.now() - startedAt));
+      const commentReleased = sleep(1500).then(() => commentWriter.query('COMMIT'));
+
+      const swap = await migrator.completeMigration();
+      await commentReleased;
+
+      expect(swap.success).toBe(false);
+      expect(swap.error).toContain('Schema swap abandoned after 1 attempt');
+      // Waiting the full timeout again on "User" would take 3500ms
+      expect(timedOutAfterMs).toBeGreaterThan(0);
+      expect(timedOutAfterMs).toBeLessThan(3000);
+    } finally {
+      await commentWriter.end();
+      await userWriter.query('ROLLBACK');
+      await userWriter.end();
+    }
+  }, 120000);
+
+  it('should reset application sessions after the swap', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+
+    // Two pooled application connections, one listening for the swap notification
+    const connect = async (applicationName: string) => {
+      const client = new Client({
+        connectionString: expectedDestUrl,
+        application_name: applicationName,
+      });
+      client.on('error', () => {});
+      await client.connect();
+      await client.query('SELECT count(*) FROM "User"');
+      return client;
+    };
+    const listener = await connect('app-listener');
+    const notifications: string[] = [];
+    listener.on('notification', ({ payload }) => notifications.push(payload ?? ''));
+    await listener.query('LISTEN migration_test_swap');
+
+    const first = await new DatabaseMigrator(sourceConfig, destConfig, ['User']).prepareMigration();
+    expect(first.success).toBe(true);
+    const notified: SessionsResetEvent[] = [];
+    const notifying = new DatabaseMigrator({} as DatabaseConfig, destConfig, ['User'], false, {
+      sessionReset: { mode: 'notify', channel: 'migration_test_swap', verifyTimeoutMs: 1000 },
+    });
+    notifying.on('sessionsReset', event => notified.push(event));
+    expect((await notifying.completeMigration()).success).toBe(true);
+
+    await expect.poll(() => notifications.length).toBe(1);
+    expect(JSON.parse(notifications[0])).toEqual({
+      event: 'schema_swapped',
+      migrationId: first.migrationId,
+      backupSchema: `backup_${first.timestamp}`,
+    });
+    expect(notified).toEqual([{ mode: 'notify', sessions: [], lingering: [] }]);
+    await listener.end();
+
+    // Terminating in waves of one ends every allowlisted session
+    const apps = [await connect('app'), await connect('app')];
+    const appPids = (
+      await destLoader.executeQuery(
+        `SELECT pid FROM pg_stat_activity WHERE application_name = 'app'`
+      )
+    ).map(row => row.pid);
+    expect(appPids).toHaveLength(2);
+
+    const second = await new DatabaseMigrator(sourceConfig, destConfig, [
+      'User',
+    ]).prepareMigration();
+    expect(second.success).toBe(true);
+    const terminated: SessionsResetEvent[] = [];
+    const terminating = new DatabaseMigrator({} as DatabaseConfig, destConfig, ['User'], false, {
+      sessionReset: {
+        mode: 'terminate',
+        applications: ['app'],
+        waveSize: 1,
+        waveIntervalMs: 10,
+        verifyTimeoutMs: 1000,
+      },
+    });
+    terminating.on('sessionsReset', event => terminated.push(event));
+    expect((await terminating.completeMigration()).success).toBe(true);
+
+    expect(terminated[0].sessions.map(session => session.pid).sort()).toEqual(appPids.sort());
+    expect(terminated[0].lingering).toEqual([]);
+    const remaining = await destLoader.executeQuery(
+      `SELECT pid FROM pg_stat_activity WHERE application_name = 'app'`
+    );
+    expect(remaining).toHaveLength(0);
+    await Promise.all(apps.map(client => client.end().catch(() => {})));
+  }, 180000);
+
+  it('should capture late writes to the backup schema and replay them', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const migrator = new DatabaseMigrator(sourceConfig, destConfig, ['User']);
+    const result = await migrator.migrate();
+    expect(result.success).toBe(true);
+    const rollback = new DatabaseRollback(destConfig);
+    const [latestBackup] = await rollback.getAvailableBackups();
+    const backupSchema = latestBackup.schemaName;
+
+    // A stale connection still writing to the old tables
+    await destLoader.executeQuery(
+      `INSERT INTO "${backupSchema}"."User" (id, email, name, "updatedAt")
+       VALUES (999, 'late@test.com', 'LATE_USER', now())`
+    );
+    await destLoader.executeQuery(
+      `UPDATE "${backupSchema}"."User" SET name = 'LATE_NAME' WHERE id = 1`
+    );
+    await destLoader.executeQuery(
+      `UPDATE "${backupSchema}"."User" SET name = 'LATE_CONFLICT' WHERE id = 2`
+    );
+    // ...and a new write to the live row it collides with
+    await destLoader.executeQuery(`UPDATE "User" SET name = 'LIVE_NAME' WHERE id = 2`);
+
+    const listed = await reconcileLateWrites(destConfig);
+    expect(listed.backupSchema).toBe(backupSchema);
+    expect(listed.replayed).toEqual([]);
+    expect(listed.pending.map(write => [write.operation, write.tableName])).toEqual([
+      ['INSERT', 'User'],
+      ['UPDATE', 'User'],
+      ['UPDATE', 'User'],
+    ]);
+    expect(listed.pending[1].oldRow?.name).not.toBe('LATE_NAME');
+    expect(listed.pending[1].newRow?.name).toBe('LATE_NAME');
+
+    const applied = await reconcileLateWrites(destConfig, { apply: true });
+    expect(applied.replayed.map(outcome => outcome.status)).toEqual([
+      'applied',
+      'applied',
+      'conflict',
+    ]);
+    expect(applied.replayed[2].detail).toBe('the row changed since the swap');
+
+    const users = await destLoader.executeQuery(
+      'SELECT id, name FROM "User" WHERE id IN (1, 2, 999) ORDER BY id'
+    );
+    expect(users).toEqual([
+      { id: 1, name: 'LATE_NAME' },
+      { id: 2, name: 'LIVE_NAME' },
+      { id: 999, name: 'LATE_USER' },
+    ]);
+
+    // Conflicts stay pending for the next run
+    const remaining = await reconcileLateWrites(destConfig, { backupSchema });
+    expect(remaining.pending).toHaveLength(1);
+    expect(remaining.pending[0]).toMatchObject({ replayStatus: 'conflict', tableName: 'User' });
+
+    // Rolling back restores the backup tables without the capture triggers
+    await rollback.rollback(latestBackup.timestamp);
+    const triggers = await destLoader.executeQuery(
+      `SELECT tgname FROM pg_trigger WHERE tgname = 'migration_late_write_capture'`
+    );
+    expect(triggers).toHaveLength(0);
+  }, 120000);
+
+  it('should sync preserved tables by their actual key', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    // A composite primary key, a table keyed by a unique index only and a keyless table
+    for (const loader of [sourceLoader, destLoader]) {
+      await loader.executeQuery(`
+        CREATE TABLE "Membership" (org_id INT, user_id INT, role TEXT, PRIMARY KEY (org_id, user_id));
+        CREATE TABLE "Setting" (name TEXT NOT NULL, value TEXT);
+        CREATE UNIQUE INDEX setting_name_key ON "Setting" (name);
+        CREATE TABLE "AuditLog" (event TEXT, payload JSON);
+      `);
+    }
+    await destLoader.executeQuery(`
+      INSERT INTO "Membership" VALUES (1, 1, 'member'), (1, 2, 'member'), (2, 1, 'member');
+      INSERT INTO "Setting" VALUES ('theme', 'dark'), ('locale', 'en');
+      INSERT INTO "AuditLog" VALUES ('login', '{"ip": "10.0.0.1"}'), ('login', '{"ip": "10.0.0.1"}');
+    `);
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const preservedTables = ['Membership', 'Setting', 'AuditLog'];
+
+    const refused = await new DatabaseMigrator(
+      sourceConfig,
+      destConfig,
+      preservedTables
+    ).prepareMigration();
+    expect(refused.success).toBe(false);
+    expect(refused.error).toMatch(/Preserved table Setting has no primary key/);
+
+    const prepared = await new DatabaseMigrator(sourceConfig, destConfig, preservedTables, false, {
+      syncKeys: { Setting: 'setting_name_key', AuditLog: 'full-row' },
+    }).prepareMigration();
+    expect(prepared.success).toBe(true);
+
+    await destLoader.executeQuery(`
+      UPDATE "Membership" SET role = 'admin' WHERE org_id = 1 AND user_id = 2;
+      DELETE FROM "Membership" WHERE org_id = 2 AND user_id = 1;
+      UPDATE "Setting" SET value = 'light' WHERE name = 'theme';
+      DELETE FROM "AuditLog" WHERE ctid = (SELECT ctid FROM "AuditLog" LIMIT 1);
+    `);
+
+    expect(
+      await destLoader.executeQuery('SELECT * FROM shadow."Membership" ORDER BY org_id, user_id')
+    ).toEqual([
+      { org_id: 1, user_id: 1, role: 'member' },
+      { org_id: 1, user_id: 2, role: 'admin' },
+    ]);
+    expect(await destLoader.executeQuery('SELECT * FROM shadow."Setting" ORDER BY name')).toEqual([
+      { name: 'locale', value: 'en' },
+      { name: 'theme', value: 'light' },
+    ]);
+    // Only one of the identical rows is deleted
+    expect(await destLoader.executeQuery('SELECT event FROM shadow."AuditLog"')).toEqual([
+      { event: 'login' },
+    ]);
+  }, 120000);
+
+  it('should sync preserved tables with generated, identity and dropped columns', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    // The destination table has a dropped column and a different column order
+    await sourceLoader.executeQuery(`
+      CREATE TABLE "Invoice" (
+        id INT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+        amount INT NOT NULL,
+        note TEXT,
+        total INT GENERATED ALWAYS AS (amount * 2) STORED
+      );
+    `);
+    await destLoader.executeQuery(`
+      CREATE TABLE "Invoice" (
+        id INT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+        legacy TEXT,
+        note TEXT,
+        amount INT NOT NULL,
+        total INT GENERATED ALWAYS AS (amount * 2) STORED
+      );
+      ALTER TABLE "Invoice" DROP COLUMN legacy;
+      INSERT INTO "Invoice" (note, amount) VALUES ('first', 10), ('second', 20);
+    `);
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const prepared = await new DatabaseMigrator(sourceConfig, destConfig, [
+      'Invoice',
+    ]).prepareMigration();
+    expect(prepared.success).toBe(true);
+
+    await destLoader.executeQuery(`
+      INSERT INTO "Invoice" (note, amount) VALUES ('third', 30);
+      UPDATE "Invoice" SET amount = 15, note = 'first (corrected)' WHERE id = 1;
+      DELETE FROM "Invoice" WHERE id = 2;
+    `);
+
+    const selectInvoices = 'SELECT id, amount, note, total FROM "Invoice" ORDER BY id';
+    const shadowInvoices = await destLoader.executeQuery(
+      selectInvoices.replace('"Invoice"', 'shadow."Invoice"')
+    );
+    expect(shadowInvoices).toEqual([
+      { id: 1, amount: 15, note: 'first (corrected)', total: 30 },
+      { id: 3, amount: 30, note: 'third', total: 60 },
+    ]);
+    expect(shadowInvoices).toEqual(await destLoader.executeQuery(selectInvoices));
+
+    // The identity sequence continues after the synced rows once swapped
+    const swapped = await new DatabaseMigrator({} as DatabaseConfig, destConfig, [
+      'Invoice',
+    ]).completeMigration();
+    expect(swapped.success).toBe(true);
+    const [inserted] = await destLoader.executeQuery(
+      `INSERT INTO "Invoice" (note, amount) VALUES ('fourth', 40) RETURNING id`
+    );
+    expect(inserted.id).toBe(4);
+  }, 120000);
+
+  it('should refuse identity columns that are unique keys other than the sync key', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    const ticketTable = `
+      CREATE TABLE "Ticket" (
+        id INT PRIMARY KEY,
+        number INT GENERATED ALWAYS AS IDENTITY UNIQUE,
+        title TEXT
+      );
+    `;
+    await sourceLoader.executeQuery(ticketTable);
+    await destLoader.executeQuery(`
+      ${ticketTable}
+      INSERT INTO "Ticket" (id, title) VALUES (1, 'first');
+    `);
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const refused = await new DatabaseMigrator(sourceConfig, destConfig, [
+      'Ticket',
+    ]).prepareMigration();
+    expect(refused.success).toBe(false);
+    expect(refused.error).toContain(
+      'Column Ticket.number is GENERATED ALWAYS AS IDENTITY and part of unique index Ticket_number_key'
+    );
+
+    // Identifying rows by that index is accepted
+    const prepared = await new DatabaseMigrator(sourceConfig, destConfig, ['Ticket'], false, {
+      syncKeys: { Ticket: 'Ticket_number_key' },
+    }).prepareMigration();
+    expect(prepared.success).toBe(true);
+  }, 120000);
+
+  it('should sync drifted preserved tables through column mappings', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    // The source version renames a column, changes a type and adds NOT NULL columns
+    await sourceLoader.executeQuery(`
+      CREATE TABLE "Contact" (
+        id INT PRIMARY KEY,
+        full_name TEXT,
+        age INT,
+        active BOOLEAN NOT NULL,
+        source TEXT NOT NULL
+      );
+    `);
+    await destLoader.executeQuery(`
+      CREATE TABLE "Contact" (
+        id INT PRIMARY KEY,
+        name TEXT,
+        age TEXT,
+        legacy TEXT
+      );
+      INSERT INTO "Contact" (id, name, age, legacy) VALUES (1, 'Ada', '36', 'x'), (2, 'Bob', '41', 'y');
+    `);
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const columnMappings = {
+      Contact: {
+        full_name: { from: 'name' },
+        age: { cast: 'integer' },
+        source: { value: 'legacy-app' },
+      },
+    };
+    const prepared = await new DatabaseMigrator(sourceConfig, destConfig, ['Contact'], false, {
+      columnMappings,
+    }).prepareMigration();
+    expect(prepared.success).toBe(true);
+
+    await destLoader.executeQuery(`
+      INSERT INTO "Contact" (id, name, age) VALUES (3, 'Cy', '29');
+      UPDATE "Contact" SET name = 'Ada L.', age = '37' WHERE id = 1;
+      DELETE FROM "Contact" WHERE id = 2;
+    `);
+
+    expect(
+      await destLoader.executeQuery(
+        'SELECT id, full_name, age, active, source FROM shadow."Contact" ORDER BY id'
+      )
+    ).toEqual([
+      { id: 1, full_name: 'Ada L.', age: 37, active: false, source: 'legacy-app' },
+      { id: 3, full_name: 'Cy', age: 29, active: false, source: 'legacy-app' },
+    ]);
+  }, 120000);
+
+  it('should sync updates of preserved tables with no column an UPDATE can set', async () => {
+    const sourceLoader = multiLoader.getSourceLoader();
+    const destLoader = multiLoader.getDestLoader();
+
+    if (!sourceLoader || !destLoader) {
+      throw new Error('Test loaders not initialized');
+    }
+
+    await sourceLoader.loadTestData();
+    await destLoader.loadTestData();
+
+    // The identity key is never updated and the new column is filled with a zero value
+    await sourceLoader.executeQuery(`
+      CREATE TABLE "Tag" (
+        id INT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+        active BOOLEAN NOT NULL
+      );
+    `);
+    await destLoader.executeQuery(`
+      CREATE TABLE "Tag" (
+        id INT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+        label TEXT
+      );
+      INSERT INTO "Tag" (label) VALUES ('first'), ('second');
+    `);
+    // Matched by full row with no unique key, so an update must move the row, not add one
+    await sourceLoader.executeQuery(`
+      CREATE TABLE "Badge" (code INT GENERATED ALWAYS AS IDENTITY);
+    `);
+    await destLoader.executeQuery(`
+      CREATE TABLE "Badge" (code INT, note TEXT);
+      INSERT INTO "Badge" (code) VALUES (1), (2);
+    `);
+
+    const sourceConfig = parseDatabaseUrl(expectedSourceUrl);
+    const destConfig = parseDatabaseUrl(expectedDestUrl);
+    const prepared = await new DatabaseMigrator(sourceConfig, destConfig, [
+      'Tag',
+      'Badge',
+    ]).prepareMigration();
+    expect(prepared.success).toBe(true);
+    expect(prepared.logs.some(log => log.includes('Tag.active is new, NOT NULL'))).toBe(true);
+
+    await destLoader.executeQuery(`
+      UPDATE "Tag" SET label = 'first (renamed)' WHERE id = 1;
+      INSERT INTO "Tag" (label) VALUES ('third');
+      DELETE FROM "Tag" WHERE id = 2;
+      UPDATE "Badge" SET code = 5 WHERE code = 1;
+    `);
+
+    expect(
+      await destLoader.executeQuery('SELECT id, active FROM shadow."Tag" ORDER BY id')
+    ).toEqual([
+      { id: 1, active: false },
+      { id: 3, active: false },
+    ]);
+    expect(await destLoader.executeQuery('SELECT code FROM shadow."Badge" ORDER BY code')).toEqual([
+      { code: 2 },
+      { code: 5 },
+    ]);
+  }, 120000);
+
   it('should perform dry run prepare without making changes', async () => {
     console.log('🚀 Starting dry run test...');
 
@@ -0,0 +1,101 @@
+/**
+ * Tests for tracing
+ *
+ * Runs spans against an in-memory and a file exporter; the spans of real migrations are
+ * exercised by the integration tests whenever tracing is set up.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { context, SpanStatusCode, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { parseTraceExporter, setupTracing, TracingHandle, withSpan } from '../tracing.js';
+
+describe('tracing', () => {
+  let directory: string | undefined;
+  let handle: TracingHandle | undefined;
+
+  afterEach(async () => {
+    await handle?.shutdown();
+    handle = undefined;
+    trace.disable();
+    context.disable();
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it('should nest spans and record failures', async () => {
+    const exporter = new InMemorySpanExporter();
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+    trace.setGlobalTracerProvider(
+      new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+    );
+
+    const result = await withSpan('migrate', { 'migration.dry_run': false }, async () => {
+      await withSpan('Phase 1: Dump source', { 'migration.phase': 1 }, async () => {});
+      await expect(
+        withSpan('ALTER SCHEMA', {}, async () => {
+          throw new Error('lock timeout');
+        })
+      ).rejects.toThrow('lock timeout');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    const spans = exporter.getFinishedSpans();
+    const [phase, statement, root] = spans;
+    expect(spans.map(span => span.name)).toEqual([
+      'Phase 1: Dump source',
+      'ALTER SCHEMA',
+      'migrate',
+    ]);
+    expect(phase.parentSpanContext?.spanId).toBe(root.spanContext().spanId);
+    expect(statement.parentSpanContext?.spanId).toBe(root.spanContext().spanId);
+    expect(phase.attributes).toEqual({ 'migration.phase': 1 });
+    expect(statement.status).toEqual({ code: SpanStatusCode.ERROR, message: 'lock timeout' });
+    expect(statement.events.map(event => event.name)).toEqual(['exception']);
+    expect(root.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('should append finished spans to an NDJSON file', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'tracing-test-'));
+    const file = join(directory, 'trace.ndjson');
+    handle = setupTracing({ exporter: 'file', file });
+
+    await withSpan('swap', { 'db.system': 'postgresql' }, async () => {
+      await withSpan('COMMIT', { 'db.statement': 'COMMIT' }, async () => {});
+    });
+
+    const spans = readFileSync(file, 'utf8')
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(spans).toMatchObject([
+      { name: 'COMMIT', status: 'UNSET', attributes: { 'db.statement': 'COMMIT' } },
+      { name: 'swap', attributes: { 'db.system': 'postgresql' } },
+    ]);
+    expect(spans[0].parentSpanId).toBe(spans[1].spanId);
+    expect(spans[1].parentSpanId).toBeUndefined();
+    expect(spans[0].traceId).toBe(spans[1].traceId);
+    expect(typeof spans[1].durationMs).toBe('number');
+  });
+
+  it('should validate trace exporters', () => {
+    expect(parseTraceExporter('console')).toBe('console');
+    expect(() => parseTraceExporter('jaeger')).toThrow(
+      'Invalid trace exporter: jaeger (expected console or file)'
+    );
+    expect(() => setupTracing({ exporter: 'file' })).toThrow(
+      'The file trace exporter requires a file path'
+    );
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for webhook notifications
+ *
+ * Delivers payloads to a local HTTP receiver; the events sent by real migrations are covered in
+ * migration.integration.test.ts.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  describeFailedDelivery,
+  parseWebhookUrls,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookNotifier,
+  WebhookPayload,
+} from '../webhooks.js';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const PAYLOAD: WebhookPayload = {
+  event: 'swap.completed',
+  operation: 'complete',
+  occurredAt: '2025-07-22T18:12:31.602Z',
+  database: 'app',
+  migrationId: 'migration_1753207951602_source_to_app',
+  success: true,
+  data: { recordsMigrated: 10 },
+};
+
+describe('WebhookNotifier', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      server.closeAllConnections();
+      await new Promise(resolve => server?.close(resolve));
+      server = undefined;
+    }
+  });
+
+  /**
+   * Start a receiver answering each request with the next status (the last one repeats)
+   * A status of 0 never answers, to exercise timeouts.
+   */
+  async function startReceiver(
+    statuses: number[]
+  ): Promise<{ url: string; requests: ReceivedRequest[] }> {
+    const requests: ReceivedRequest[] = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requests.push({ headers: req.headers, body });
+        const status = statuses[Math.min(requests.length, statuses.length) - 1];
+        if (status > 0) {
+          res.writeHead(status);
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>(resolve => server?.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return { url: `http://127.0.0.1:${port}/hooks?token=abc`, requests };
+  }
+
+  it('should post a signed JSON payload', async () => {
+    const receiver = await startReceiver([204]);
+    const notifier = new WebhookNotifier({ urls: [receiver.url], secret: 's3cret' });
+
+    const deliveries = await notifier.notify(PAYLOAD);
+
+    expect(deliveries).toEqual([
+      { url: receiver.url, delivered: true, attempts: 1, status: 204, error: undefined },
+    ]);
+    const [request] = receiver.requests;
+    expect(JSON.parse(request.body)).toEqual(PAYLOAD);
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['x-migration-event']).toBe('swap.completed');
+    const signature = request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string;
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(request.body, signature, 's3cret')).toBe(true);
+    expect(verifyWebhookSignature(request.body, signature, 'other')).toBe(false);
+    expect(verifyWebhookSignature(`${request.body} `, signature, 's3cret')).toBe(false);
+  });
+
+  it('should retry server errors with the same delivery ID', async () => {
+    const receiver = await startReceiver([503, 500, 200]);
+    const notifier = new WebhookNotifier({ urls: [receiver.url], retries: 3, retryDelayMs: 1 });
+
+    const [delivery] = await notifier.notify(PAYLOAD);
+
+    expect(delivery).toMatchObject({ delivered: true, attempts: 3, status: 200 });
+    expect(receiver.requests[0].headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]).toBeUndefined();
+    const deliveryIds = receiver.requests.map(request => request.headers['x-migration-delivery']);
+    expect(new Set(deliveryIds).size).toBe(1);
+  });
+
+  it('should not retry rejected payloads', async () => {
+    const rejecting = await startReceiver([400]);
+    const [rejected] = await new WebhookNotifier({
+      urls: [rejecting.url],
+      retryDelayMs: 1,
+    }).notify(PAYLOAD);
+    expect(rejected).toMatchObject({ delivered: false, attempts: 1, error: 'HTTP 400' });
+    expect(describeFailedDelivery('swap.completed', rejected)).toBe(
+      `Webhook swap.completed was not delivered to ${new URL(rejecting.url).host} after 1 attempt: HTTP 400`
+    );
+  });
+
+  it('should time out unanswered requests', async () => {
+    const receiver = await startReceiver([0]);
+    const notifier = new WebhookNotifier({
+      urls: [receiver.url],
+      retries: 1,
+      retryDelayMs: 1,
+      timeoutMs: 50,
+    });
+
+    const [delivery] = await notifier.notify(PAYLOAD);
+
+    expect(delivery).toMatchObject({
+      delivered: false,
+      attempts: 2,
+      error: 'Timed out after 50ms',
+    });
+    expect(receiver.requests).toHaveLength(2);
+  });
+
+  it('should parse webhook URL lists', () => {
+    expect(parseWebhookUrls('http://localhost:8080/a, https://hooks.example.com/b,')).toEqual([
+      'http://localhost:8080/a',
+      'https://hooks.example.com/b',
+    ]);
+    expect(() => parseWebhookUrls('not a url')).toThrow('Invalid webhook URL: not a url');
+    expect(() => parseWebhookUrls('ftp://example.com')).toThrow(
+      'Invalid webhook URL: ftp://example.com (expected http or https)'
+    );
+  });
+});
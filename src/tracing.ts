@@ -0,0 +1,175 @@
+/**
+ * Tracing
+ *
+ * Optional OpenTelemetry spans for migrations: `migrate`, `prepareMigration`,
+ * `completeMigration`, `resumeMigration` and `rollback` are root spans, with child spans for
+ * each phase, each pg_dump/pg_restore process, each trigger, sequence and index operation and
+ * the individual statements of the schema swap. Without a registered tracer provider every
+ * span is a no-op; `setupTracing` registers one that exports finished spans to the console or
+ * to an NDJSON file for offline analysis. Services with their own OpenTelemetry SDK get the
+ * spans through their provider instead.
+ */
+
+import { appendFileSync } from 'fs';
+import {
+  Attributes,
+  context,
+  Span,
+  SpanStatusCode,
+  trace,
+  TracerProvider,
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  ExportResult,
+  ExportResultCode,
+  hrTimeToMilliseconds,
+  hrTimeToTimeStamp,
+} from '@opentelemetry/core';
+import {
+  BasicTracerProvider,
+  ConsoleSpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+  SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import { describeError } from './logger.js';
+
+export const TRACER_NAME = 'db_migrations';
+
+export type TraceExporter = 'console' | 'file';
+
+export const TRACE_EXPORTERS: TraceExporter[] = ['console', 'file'];
+
+export interface TracingOptions {
+  exporter: TraceExporter;
+  /** NDJSON file spans are appended to, for the `file` exporter */
+  file?: string;
+}
+
+/**
+ * Registered tracing, flushed and removed by `shutdown()`
+ */
+export interface TracingHandle {
+  provider: TracerProvider;
+  shutdown(): Promise<void>;
+}
+
+/**
+ * Run a function in a child span of the active span
+ * The span records the exception and an error status when the function throws.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return trace.getTracer(TRACER_NAME).startActiveSpan(name, { attributes }, async (span: Span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : describeError(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: describeError(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Mark a span failed without an exception, e.g. for an operation that reports failure in its result
+ */
+export function markSpanFailed(span: Span, message?: string): void {
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+/**
+ * Span exporter appending one JSON object per finished span to a file
+ */
+export class FileSpanExporter implements SpanExporter {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    try {
+      const lines = spans.map(span => JSON.stringify(serializeSpan(span)));
+      appendFileSync(this.path, `${lines.join('\n')}\n`, 'utf8');
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+/**
+ * Flatten a finished span into a JSON-friendly object
+ */
+export function serializeSpan(span: ReadableSpan): Record<string, unknown> {
+  const { traceId, spanId } = span.spanContext();
+  return {
+    traceId,
+    spanId,
+    parentSpanId: span.parentSpanContext?.spanId,
+    name: span.name,
+    startTime: hrTimeToTimeStamp(span.startTime),
+    endTime: hrTimeToTimeStamp(span.endTime),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    status: SpanStatusCode[span.status.code],
+    statusMessage: span.status.message,
+    attributes: span.attributes,
+    events: span.events.map(event => ({
+      name: event.name,
+      time: hrTimeToTimeStamp(event.time),
+      attributes: event.attributes,
+    })),
+  };
+}
+
+/**
+ * Parse a `--trace` value
+ */
+export function parseTraceExporter(value: string): TraceExporter {
+  if (!TRACE_EXPORTERS.includes(value as TraceExporter)) {
+    throw new Error(`Invalid trace exporter: ${value} (expected ${TRACE_EXPORTERS.join(' or ')})`);
+  }
+  return value as TraceExporter;
+}
+
+/**
+ * Register a global tracer provider exporting every finished span
+ * Spans are exported as they end, so no span is lost when the process exits right after.
+ */
+export function setupTracing(options: TracingOptions): TracingHandle {
+  if (options.exporter === 'file' && !options.file) {
+    throw new Error('The file trace exporter requires a file path');
+  }
+  const exporter =
+    options.exporter === 'file' && options.file
+      ? new FileSpanExporter(options.file)
+      : new ConsoleSpanExporter();
+
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const contextManager = new AsyncLocalStorageContextManager().enable();
+  context.setGlobalContextManager(contextManager);
+  trace.setGlobalTracerProvider(provider);
+
+  return {
+    provider,
+    shutdown: async () => {
+      await provider.shutdown();
+      trace.disable();
+      context.disable();
+    },
+  };
+}
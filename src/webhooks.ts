@@ -0,0 +1,250 @@
+/**
+ * Webhooks
+ *
+ * Sends JSON notifications of migration lifecycle events (prepare started/completed/failed,
+ * swap completed or rolled back, manual intervention required, rollback and cleanup) to one or
+ * more webhook URLs. With a shared secret every request carries an HMAC-SHA256 signature of
+ * its body, so receivers can check it came from this tool. Failed deliveries are retried with
+ * exponential backoff; a notification that cannot be delivered never fails the migration.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { clearTimeout, setTimeout } from 'timers';
+import { setTimeout as sleep } from 'timers/promises';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Migration-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Migration-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Migration-Delivery';
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+export type WebhookEventType =
+  | 'prepare.started'
+  | 'prepare.completed'
+  | 'prepare.failed'
+  | 'swap.completed'
+  | 'swap.failed'
+  | 'swap.rolled_back'
+  | 'manual_intervention_required'
+  | 'rollback.completed'
+  | 'rollback.failed'
+  | 'cleanup.completed'
+  | 'cleanup.failed';
+
+export interface WebhookConfig {
+  urls: string[];
+  /** Shared secret for the `X-Migration-Signature` header; requests are unsigned without it */
+  secret?: string;
+  /** Attempts after a failed delivery (default 3) */
+  retries?: number;
+  /** Timeout of each delivery attempt in milliseconds (default 10000) */
+  timeoutMs?: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry (default 1000) */
+  retryDelayMs?: number;
+}
+
+/**
+ * JSON body of a webhook request
+ */
+export interface WebhookPayload {
+  event: WebhookEventType;
+  /** Operation that produced the event: migrate, prepare, complete, resume, rollback or cleanup */
+  operation: string;
+  /** ISO 8601 time the event happened */
+  occurredAt: string;
+  /** Destination database */
+  database: string;
+  migrationId?: string;
+  success: boolean;
+  error?: string;
+  /** Event details, e.g. the migration stats or the dropped backup schemas */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Outcome of delivering one payload to one URL
+ */
+export interface WebhookDelivery {
+  url: string;
+  delivered: boolean;
+  attempts: number;
+  /** HTTP status of the last attempt, when the receiver answered */
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Signature header value for a request body: `sha256=<hex HMAC-SHA256 of the body>`
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Check the signature header of a received webhook request in constant time
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | undefined,
+  secret: string
+): boolean {
+  if (!signature) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(body, secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Parse a comma-separated list of webhook URLs
+ */
+export function parseWebhookUrls(value: string): string[] {
+  const urls = value
+    .split(',')
+    .map(url => url.trim())
+    .filter(url => url.length > 0);
+
+  for (const url of urls) {
+    let protocol: string;
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      throw new Error(`Invalid webhook URL: ${url}`);
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new Error(`Invalid webhook URL: ${url} (expected http or https)`);
+    }
+  }
+  return urls;
+}
+
+/**
+ * Describe a failed delivery for the log, naming only the host so URL tokens are not logged
+ */
+export function describeFailedDelivery(event: WebhookEventType, delivery: WebhookDelivery): string {
+  const attempts = delivery.attempts === 1 ? '1 attempt' : `${delivery.attempts} attempts`;
+  return `Webhook ${event} was not delivered to ${new URL(delivery.url).host} after ${attempts}: ${delivery.error}`;
+}
+
+/**
+ * Whether a failed attempt is worth retrying: timeouts, throttling and server errors
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * POST a body and resolve with the response status once the response has been read
+ * The request is aborted when no complete response arrives within the timeout.
+ */
+function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = (url.startsWith('https:') ? httpsRequest : httpRequest)(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      },
+      response => {
+        // Drain the body so the socket is released
+        response.resume();
+        response.on('end', () => {
+          clearTimeout(timer);
+          resolve(response.statusCode ?? 0);
+        });
+      }
+    );
+    const timer = setTimeout(() => {
+      request.destroy(new Error(`Timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    request.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    request.end(body);
+  });
+}
+
+/**
+ * Delivers webhook payloads to every configured URL
+ */
+export class WebhookNotifier {
+  private config: WebhookConfig;
+
+  constructor(config: WebhookConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Send a payload to every URL in parallel, retrying failed deliveries
+   * Never throws: failures are reported in the returned deliveries.
+   */
+  async notify(payload: WebhookPayload): Promise<WebhookDelivery[]> {
+    const body = JSON.stringify(payload);
+    const deliveryId = randomUUID();
+    return Promise.all(
+      this.config.urls.map(url => this.deliver(url, payload.event, body, deliveryId))
+    );
+  }
+
+  private async deliver(
+    url: string,
+    event: WebhookEventType,
+    body: string,
+    deliveryId: string
+  ): Promise<WebhookDelivery> {
+    const retries = this.config.retries ?? DEFAULT_RETRIES;
+    const retryDelayMs = this.config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'db_migrations',
+      [WEBHOOK_EVENT_HEADER]: event,
+      // Identical across retries so receivers can drop duplicates
+      [WEBHOOK_DELIVERY_HEADER]: deliveryId,
+    };
+    if (this.config.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(body, this.config.secret);
+    }
+
+    const delivery: WebhookDelivery = { url, delivered: false, attempts: 0 };
+    while (delivery.attempts <= retries) {
+      if (delivery.attempts > 0) {
+        await sleep(retryDelayMs * 2 ** (delivery.attempts - 1));
+      }
+      delivery.attempts++;
+
+      try {
+        const status = await postJson(
+          url,
+          headers,
+          body,
+          this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+        );
+        delivery.status = status;
+        if (status >= 200 && status < 300) {
+          delivery.delivered = true;
+          delivery.error = undefined;
+          return delivery;
+        }
+        delivery.error = `HTTP ${status}`;
+        if (!isRetryableStatus(status)) {
+          return delivery;
+        }
+      } catch (error) {
+        delivery.status = undefined;
+        delivery.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+    return delivery;
+  }
+}